@@ -1,25 +1,70 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, TFile, requestUrl, Menu, Editor, MarkdownView, Component, Modal } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, Notice, TFile, requestUrl, Menu, Editor, MarkdownView, Component, Modal, normalizePath, MarkdownRenderChild, MarkdownRenderer, MarkdownPostProcessorContext, editorLivePreviewField, EditorChange, Events, EventRef, parseYaml, SuggestModal, SearchResult, prepareFuzzySearch, renderResults, Platform, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo, EditorPosition, ItemView, WorkspaceLeaf, ViewStateResult, ObsidianProtocolData, RequestUrlResponse, FileSystemAdapter, setIcon, HoverPopover } from 'obsidian';
 import { EditorView, ViewPlugin, ViewUpdate, DecorationSet, Decoration, WidgetType } from '@codemirror/view';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import * as childProcess from 'child_process';
+import * as zlib from 'zlib';
+
+type VaultMappingType = 'local' | 'http' | 'git' | 'zip';
 
 interface VaultMapping {
 	name: string;
+	// Other names links may use for this vault, such as its name before a rename
+	aliases?: string[];
+	// Folder on disk, .zip archive, or the base URL for HTTP mappings
 	path: string;
 	enableLocalCache: boolean;
+	enableWriteBack?: boolean;
+	type?: VaultMappingType;
+	username?: string;
+	password?: string;
+	// Branch, tag or commit read by git mappings
+	ref?: string;
+	// Paths used instead of `path` on the device with the given hostname
+	pathOverrides?: Record<string, string>;
+	// Replaces the global display template for links into this vault
+	displayTemplate?: string;
 }
 
+// Where followed links open: the cached copy or the other vault, or a read-only tab in this vault
+type OpenLinksIn = 'default' | 'viewer';
+
 interface CrossVaultSettings {
 	vaultMappings: VaultMapping[];
+	followExternalMoves: boolean;
+	cacheFolder: string;
+	openLinksIn: OpenLinksIn;
+	// How links are shown, with {vault}, {title}, {basename}, {heading} and {folder} tokens
+	displayTemplate: string;
 }
 
 const DEFAULT_SETTINGS: CrossVaultSettings = {
-	vaultMappings: []
+	vaultMappings: [],
+	followExternalMoves: true,
+	cacheFolder: 'Cross-Vault Cache',
+	openLinksIn: 'default',
+	displayTemplate: '{title}'
 };
 
+// What a link does when followed; links without an action open a note
+type ObsidianUrlAction = 'vault' | 'search' | 'new';
+
 interface ObsidianUrl {
 	vault: string;
+	// Empty for vault and search links
 	file: string;
+	subpath?: string;
+	alias?: string;
+	// Git revision the link is pinned to
+	ref?: string;
+	action?: ObsidianUrlAction;
+	// Search text of search links
+	query?: string;
+	// Text written by new links, and what happens when the note already exists
+	content?: string;
+	writeMode?: 'append' | 'overwrite';
 	originalUrl: string;
 }
 
@@ -27,893 +72,7051 @@ interface VaultFile {
 	vault: VaultMapping;
 	path: string;
 	basename: string;
+	subpath?: string;
+}
+
+interface VaultAttachment {
+	// Relative to the vault root
+	path: string;
+	data: ArrayBuffer;
+}
+
+interface VaultSubpath {
+	subpath: string;
+	text: string;
+	level: number;
 }
 
-interface FileSelectionModalProps {
+type LinkInsertMode = 'link' | 'url' | 'embed';
+
+interface CrossVaultSuggestTrigger {
+	form: 'url' | 'compact';
+	stage: 'vault' | 'file' | 'subpath';
+	start: number;
+	query: string;
+	vaultMapping?: VaultMapping;
+	indexed?: IndexedFile;
+	fileQuery?: string;
+	inMarkdownLink: boolean;
+}
+
+interface CrossVaultLinkSuggestion {
 	vaultMapping: VaultMapping;
-	onSelect: (file: VaultFile) => void;
+	file?: VaultFile;
+	title: string;
+	note: string;
+	match: SearchResult | null;
+	score: number;
 }
 
-export default class CrossVaultPlugin extends Plugin {
-	settings!: CrossVaultSettings;
+interface VaultFileSuggestion {
+	file: VaultFile;
+	title: string;
+	note: string;
+	match: SearchResult | null;
+	score: number;
+	alias?: string;
+}
 
-	async onload() {
-		await this.loadSettings();
+interface IndexedLink {
+	raw: string;
+	vault: string;
+	file: string;
+	subpath?: string;
+	ref?: string;
+	line: number;
+	context: string;
+}
 
-		// Add settings tab
-		this.addSettingTab(new CrossVaultSettingTab(this.app, this));
+interface IndexedFile {
+	path: string;
+	basename: string;
+	mtime: number;
+	size: number;
+	version?: string;
+	hash: string;
+	subpaths: VaultSubpath[];
+	aliases: string[];
+	tags: string[];
+	frontmatter: Record<string, unknown>;
+	links: IndexedLink[];
+}
 
-		// Add command to insert cross-vault link
-		this.addCommand({
-			id: 'insert-cross-vault-link',
-			name: 'Insert Link from Another Vault',
-			editorCallback: async (editor: Editor) => {
-				const vaultFile = await this.selectVaultFile();
-				if (vaultFile) {
-					const linkText = `[${vaultFile.basename}](obsidian://open?vault=${encodeURIComponent(vaultFile.vault.name)}&file=${encodeURIComponent(vaultFile.path)})`;
-					editor.replaceSelection(linkText);
-				}
-			}
-		});
+interface VaultSearchQuery {
+	text: string;
+	regex: boolean;
+	caseSensitive: boolean;
+	// Empty for every mapped vault
+	vault: string;
+	folder: string;
+	tag: string;
+	// "field" or "field: value"
+	frontmatter: string;
+}
 
-		// Register context menu for obsidian:// links
-		this.registerEvent(
-			this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor) => {
-				const selection = editor.getSelection();
-				if (this.isObsidianUrl(selection)) {
-					menu.addItem((item) => {
-						item.setTitle('Map Vault')
-							.setIcon('folder-plus')
-							.onClick(() => {
-								const parsedUrl = this.parseObsidianUrl(selection);
-								if (parsedUrl) {
-									this.showVaultMappingDialog(parsedUrl);
-								}
-							});
-					});
-				}
-			})
-		);
+interface VaultSearchMatch {
+	// Zero-based line number
+	line: number;
+	text: string;
+	ranges: { from: number, to: number }[];
+	// Closest heading above the line
+	subpath?: string;
+}
 
-		// Register markdown processor for obsidian:// links in preview mode
-		this.registerMarkdownProcessor();
+interface VaultSearchResult {
+	vaultMapping: VaultMapping;
+	indexed: IndexedFile;
+	matches: VaultSearchMatch[];
+}
 
-		// Register editor extension for live preview
-		this.registerEditorExtension([
-			this.editorLivePreviewExtension()
-		]);
+type VaultQueryFormat = 'list' | 'table';
 
-		// Register command to refresh cross-vault links
-		this.addCommand({
-			id: 'refresh-cross-vault-links',
-			name: 'Refresh Cross-Vault Links',
-			callback: () => {
-				this.refreshCurrentNote();
-			}
-		});
-	}
+interface VaultQuery {
+	vault: string;
+	folder: string;
+	tags: string[];
+	// Field name to the value it must have; "*" only requires the field
+	where: Record<string, unknown>;
+	// Modification time window, including from and excluding to
+	modified: { from: number, to: number } | null;
+	sort: string;
+	descending: boolean;
+	// 0 for no limit
+	limit: number;
+	format: VaultQueryFormat;
+	columns: string[];
+}
 
-	onunload() {}
+interface LinkGraphNode {
+	// "<vault>::<path>"
+	id: string;
+	vault: string;
+	// Without the .md extension
+	path: string;
+	// False for link targets that do not resolve
+	exists: boolean;
+}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-	}
+interface LinkGraphEdge {
+	from: string;
+	to: string;
+	count: number;
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-	}
+interface LinkGraph {
+	// This vault first, then the mapped vaults, then vaults that are linked to but not mapped
+	vaults: string[];
+	nodes: LinkGraphNode[];
+	edges: LinkGraphEdge[];
+}
 
-	private registerMarkdownProcessor() {
-		this.registerMarkdownPostProcessor((element, context) => {
-			const links = element.querySelectorAll('a[href^="obsidian://"]');
-			links.forEach((link) => {
-				this.processObsidianLink(link as HTMLAnchorElement, context);
-			});
-		});
-	}
+interface GraphPoint {
+	x: number;
+	y: number;
+}
 
-	private async processObsidianLink(linkElement: HTMLAnchorElement, context: any) {
-		const url = linkElement.href;
-		const parsedUrl = this.parseObsidianUrl(url);
-		
-		if (!parsedUrl) return;
+type BrokenLinkReason = 'unmapped' | 'missing-file' | 'missing-subpath';
 
-		const vaultMapping = this.getVaultMapping(parsedUrl.vault);
-		
-		if (!vaultMapping) {
-			this.addUnmappedVaultIndicator(linkElement, parsedUrl.vault);
-			return;
-		}
+interface BrokenCrossVaultLink {
+	source: TFile;
+	link: IndexedLink;
+	parsedUrl: ObsidianUrl;
+	reason: BrokenLinkReason;
+	candidates: string[];
+}
 
-		try {
-			const fileContent = await this.getFileFromVault(vaultMapping, parsedUrl.file);
-			if (fileContent) {
-				this.enhanceObsidianLink(linkElement, parsedUrl, vaultMapping, fileContent);
-			} else {
-				this.addErrorIndicator(linkElement, 'File not found');
-			}
-		} catch (error) {
-			this.addErrorIndicator(linkElement, 'Error loading file');
-		}
-	}
+interface IndexedMove {
+	from: string;
+	to: string;
+}
 
-	private enhanceObsidianLink(linkElement: HTMLAnchorElement, parsedUrl: ObsidianUrl, vaultMapping: VaultMapping, fileContent: string) {
-		// Update link text and style
-		const displayText = this.getDisplayText(parsedUrl);
-		linkElement.textContent = displayText;
-		linkElement.className = 'cross-vault-link';
-		linkElement.title = `Click to open in ${vaultMapping.name} vault`;
+interface LinkRewrite {
+	source: TFile;
+	line: number;
+	before: string;
+	after: string;
+}
 
-		// Add status indicator
-		const statusSpan = document.createElement('span');
-		statusSpan.className = 'cross-vault-status';
-		statusSpan.textContent = '✓';
-		statusSpan.title = `Linked to: ${vaultMapping.path}`;
-		linkElement.appendChild(statusSpan);
+interface CacheEntry {
+	localPath: string;
+	vault: string;
+	sourcePath: string;
+	sourceMtime: number;
+	sourceHash: string;
+	cachedAt: number;
+	// Set for copies of a pinned git revision
+	ref?: string;
+	// Original link text of links rewritten in the copy, keyed by the rewritten text
+	rewrites?: Record<string, string>;
+	// Attachments copied into the cache folder for this note
+	attachments?: string[];
+}
 
-		// Create preview on hover
-		linkElement.addEventListener('mouseenter', () => {
-			this.showPreview(linkElement, fileContent, parsedUrl.file);
-		});
+interface LocalizedNote {
+	content: string;
+	rewrites: Record<string, string>;
+	attachments: string[];
+}
 
-		// Handle click to open file
-		linkElement.addEventListener('click', (e) => {
-			e.preventDefault();
-			this.openCrossVaultFile(vaultMapping, parsedUrl.file, fileContent);
-		});
-	}
+interface CacheManifest {
+	version: number;
+	entries: CacheEntry[];
+}
 
-	private addUnmappedVaultIndicator(linkElement: HTMLAnchorElement, vaultName: string) {
-		const statusSpan = document.createElement('span');
-		statusSpan.className = 'cross-vault-status cross-vault-error';
-		statusSpan.textContent = '?';
-		statusSpan.title = `Vault "${vaultName}" not mapped. Click to map.`;
-		statusSpan.addEventListener('click', () => {
-			this.showVaultMappingDialog({ vault: vaultName, file: '', originalUrl: linkElement.href });
-		});
-		linkElement.appendChild(statusSpan);
-	}
+type CacheStatus = 'none' | 'fresh' | 'stale';
 
-	private addErrorIndicator(linkElement: HTMLAnchorElement, message: string) {
-		const statusSpan = document.createElement('span');
-		statusSpan.className = 'cross-vault-status cross-vault-error';
-		statusSpan.textContent = '✗';
-		statusSpan.title = message;
-		linkElement.appendChild(statusSpan);
-	}
+interface MergeChunk {
+	// Lines both sides agree on; empty for conflicts
+	lines: string[];
+	conflict?: { base: string[], local: string[], source: string[] };
+}
 
-	showPreview(element: HTMLElement, content: string, fileName: string) {
-		const preview = document.createElement('div');
-		preview.className = 'cross-vault-preview';
+interface VaultSourceEntry {
+	// Relative to the vault root, with forward slashes
+	path: string;
+	// 0 when the source cannot tell
+	mtime: number;
+	size: number;
+	directory: boolean;
+	// Exact content identifier such as a git blob id, preferred over mtime and size
+	version?: string;
+}
 
-		// Get first heading if exists
-		const headingMatch = content.match(/^#\s+(.+)$/m);
-		const heading = headingMatch ? headingMatch[1] : fileName;
+// Where a mapped vault's notes are read from
+interface VaultSource {
+	readonly root: string;
+	readonly pollInterval: number;
+	list(relativeDir: string): Promise<VaultSourceEntry[]>;
+	stat(relativePath: string): Promise<VaultSourceEntry | null>;
+	read(relativePath: string): Promise<string>;
+	// Attachments such as images
+	readBinary(relativePath: string): Promise<ArrayBuffer>;
+	write(relativePath: string, content: string): Promise<void>;
+	// Best guess used before the index is built
+	resolvePath(fileName: string): string | null;
+	// Returns false when changes have to be found by polling
+	watch(onChange: (relativePath: string) => void, onError: () => void): boolean;
+	close(): void;
+}
 
-		// Get first paragraph
-		const paragraphMatch = content.match(/\n\n(.+?)\n\n/);
-		const excerpt = paragraphMatch 
-			? paragraphMatch[1].substring(0, 200) 
-			: content.substring(0, 200);
+interface PersistedVaultIndex {
+	version: number;
+	root: string;
+	files: IndexedFile[];
+}
 
-		preview.innerHTML = `
-			<strong>${heading}</strong>
-			${excerpt}${content.length > 200 ? '...' : ''}
-		`;
-		
-		const rect = element.getBoundingClientRect();
-		preview.style.position = 'absolute';
-		preview.style.top = `${rect.bottom + 5}px`;
-		preview.style.left = `${rect.left}px`;
-		
-		document.body.appendChild(preview);
-		
-		const removePreview = () => {
-			if (preview.parentNode) {
-				preview.parentNode.removeChild(preview);
-			}
-		};
-		
-		element.addEventListener('mouseleave', removePreview);
-		setTimeout(removePreview, 5000); // Auto-remove after 5 seconds
-	}
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const BLOCK_ID_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
 
-	async openCrossVaultFile(vaultMapping: VaultMapping, fileName: string, content: string) {
-		if (vaultMapping.enableLocalCache) {
-			// Save to local cache and open
-			await this.cacheFileLocally(vaultMapping.name, fileName, content);
-			new Notice(`File cached locally in ${vaultMapping.name}`);
-		} else {
-			// Open in the target vault using Obsidian URI
-			try {
-				const url = `obsidian://open?vault=${encodeURIComponent(vaultMapping.name)}&file=${encodeURIComponent(fileName)}`;
-				window.open(url);
-				new Notice(`Opening file in ${vaultMapping.name} vault`);
-			} catch (error) {
-				new Notice(`Cannot open file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-			}
-		}
+// Headings are compared the way Obsidian resolves them: case-insensitive, ignoring link syntax characters
+function normalizeHeading(heading: string): string {
+	return heading.replace(/[#|^:%[\]\\]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function splitSubpath(file: string): { file: string, subpath?: string } {
+	const hashIndex = file.indexOf('#');
+	if (hashIndex === -1) return { file };
+
+	const subpath = file.substring(hashIndex);
+	return {
+		file: file.substring(0, hashIndex),
+		subpath: subpath.length > 1 ? subpath : undefined
+	};
+}
+
+const LINK_CONTEXT_LENGTH = 200;
+const BROKEN_LINK_REPORT_PATH = 'Cross-Vault Link Report.md';
+// [[Vault::path/to/note#Heading|Alias]], optionally prefixed with ! for an embed
+const COMPACT_LINK_REGEX = /(!?)\[\[([^\[\]|#:]+?)::([^\[\]]+?)\]\]/g;
+const WIKILINK_REGEX = /(!?)\[\[([^\[\]|]*?)(\|[^\[\]]*)?\]\]/g;
+const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\(([^)\s]+)\)/g;
+const MARKDOWN_URL_LINK_REGEX = /(!?)\[([^\]]*)\]\((obsidian:\/\/(?:(?:open|search|new|advanced-uri)\?|vault\/)[^\s)]+)\)/g;
+const URL_REGEX = /obsidian:\/\/(?:(?:open|search|new|advanced-uri)\?|vault\/)[^\s)]+/g;
+
+function buildCompactLink(vaultName: string, file: string, subpath?: string, alias?: string, embed?: boolean): string {
+	return `${embed ? '!' : ''}[[${vaultName}::${file}${subpath || ''}${alias ? `|${alias}` : ''}]]`;
+}
+
+function buildObsidianUrl(vaultName: string, file: string, subpath?: string, ref?: string): string {
+	return `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(file + (subpath || ''))}${ref ? `&ref=${encodeURIComponent(ref)}` : ''}`;
+}
+
+// Swaps the vault a link names while keeping the rest of it as written, for every form and action
+function renameVaultInLink(raw: string, vaultName: string): string {
+	if (!raw.startsWith('obsidian://')) {
+		return raw.replace(/^(!?(?:\[\[)?)[^\[\]|#:]+?::/, (match, prefix: string) => `${prefix}${vaultName}::`);
+	}
+	if (/^obsidian:\/\/vault\//.test(raw)) {
+		return raw.replace(/^(obsidian:\/\/vault\/)[^/?#]*/, (match, prefix: string) => `${prefix}${encodeURIComponent(vaultName)}`);
 	}
+	return raw.replace(/([?&]vault=)[^&#\s)]*/, (match, prefix: string) => `${prefix}${encodeURIComponent(vaultName)}`);
+}
 
-	private async cacheFileLocally(vaultName: string, fileName: string, content: string) {
-		try {
-			const adapter = this.app.vault.adapter as any;
-			const basePath = adapter.basePath || adapter.path || '';
-			const cacheDir = path.join(basePath, vaultName);
-			
-			// Create cache directory if it doesn't exist
-			if (!fs.existsSync(cacheDir)) {
-				fs.mkdirSync(cacheDir, { recursive: true });
-			}
-			
-			const localPath = path.join(cacheDir, fileName + '.md');
-			fs.writeFileSync(localPath, content);
-			
-			new Notice(`File cached locally: ${vaultName}/${fileName}`);
-		} catch (error) {
-			new Notice(`Failed to cache file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+// Splits a note into lines, flagging frontmatter and fenced code so they are not searched for headings or blocks
+function getContentLines(content: string): { text: string, skip: boolean }[] {
+	const lines = content.split(/\r?\n/);
+	const result: { text: string, skip: boolean }[] = [];
+	let inCode = false;
+	let inFrontmatter = lines[0] === '---';
+
+	lines.forEach((text, index) => {
+		if (inFrontmatter) {
+			if (index > 0 && (text === '---' || text === '...')) inFrontmatter = false;
+			result.push({ text, skip: true });
+			return;
 		}
-	}
+		if (/^\s*(```|~~~)/.test(text)) {
+			inCode = !inCode;
+			result.push({ text, skip: true });
+			return;
+		}
+		result.push({ text, skip: inCode });
+	});
 
-	async getFileFromVault(vaultMapping: VaultMapping, fileName: string): Promise<string | null> {
-		try {
-			const filePath = path.join(vaultMapping.path, fileName + '.md');
-			
-			if (fs.existsSync(filePath)) {
-				return fs.readFileSync(filePath, 'utf8');
-			}
-			
-			// Try without .md extension
-			const filePathWithoutExt = path.join(vaultMapping.path, fileName);
-			if (fs.existsSync(filePathWithoutExt)) {
-				return fs.readFileSync(filePathWithoutExt, 'utf8');
-			}
-			
-			return null;
-		} catch (error) {
-			console.error('Error reading file from vault:', error);
-			return null;
+	return result;
+}
+
+function listSubpaths(content: string): VaultSubpath[] {
+	const subpaths: VaultSubpath[] = [];
+
+	getContentLines(content).forEach(line => {
+		if (line.skip) return;
+
+		const headingMatch = line.text.match(HEADING_REGEX);
+		if (headingMatch) {
+			subpaths.push({ subpath: `#${headingMatch[2]}`, text: headingMatch[2], level: headingMatch[1].length });
+			return;
 		}
-	}
 
-	private parseObsidianUrl(url: string): ObsidianUrl | null {
-		try {
-			const urlObj = new URL(url);
-			if (urlObj.protocol !== 'obsidian:') return null;
-			
-			const vault = urlObj.searchParams.get('vault');
-			const file = urlObj.searchParams.get('file');
-			
-			if (!vault || !file) return null;
-			
-			return {
-				vault: decodeURIComponent(vault),
-				file: decodeURIComponent(file),
-				originalUrl: url
-			};
-		} catch (error) {
-			return null;
+		const blockMatch = line.text.match(BLOCK_ID_REGEX);
+		if (blockMatch) {
+			const text = line.text.replace(BLOCK_ID_REGEX, '').trim();
+			subpaths.push({ subpath: `#^${blockMatch[1]}`, text: text || `^${blockMatch[1]}`, level: 0 });
 		}
-	}
+	});
 
-	private isObsidianUrl(text: string): boolean {
-		return text.startsWith('obsidian://');
-	}
+	return subpaths;
+}
 
-	private getDisplayText(parsedUrl: ObsidianUrl): string {
-		// Remove file extension if present
-		const file = parsedUrl.file.replace(/\.md$/, '');
-		// Replace URL-encoded characters
-		const decodedFile = decodeURIComponent(file);
-		return `${parsedUrl.vault}/${decodedFile}`;
+// Paths taken from links must stay inside the vault, so absolute paths and .. segments are refused
+function toVaultRelativePath(file: string): string | null {
+	const normalized = path.posix.normalize(file.replace(/\\/g, '/').replace(/^\/+/, ''));
+	if (normalized === '.' || normalized === '..' || normalized.startsWith('../') || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+		return null;
 	}
+	return normalized;
+}
 
-	private getVaultMapping(vaultName: string): VaultMapping | null {
-		return this.settings.vaultMappings.find(mapping => mapping.name === vaultName) || null;
-	}
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
-	async showVaultMappingDialog(parsedUrl: ObsidianUrl) {
-		const modal = new VaultMappingModal(this.app, this, parsedUrl);
-		modal.open();
+function hashContent(content: string): string {
+	return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function parseFrontmatter(content: string): Record<string, unknown> {
+	const match = content.match(/^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/);
+	if (!match) return {};
+
+	try {
+		const frontmatter = parseYaml(match[1]);
+		return frontmatter && typeof frontmatter === 'object' && !Array.isArray(frontmatter) ? frontmatter : {};
+	} catch (error) {
+		return {};
 	}
+}
 
-	private editorLivePreviewExtension() {
-		return ViewPlugin.fromClass(class {
-			decorations: DecorationSet;
-			plugin: CrossVaultPlugin;
+// Frontmatter list fields may be written as a YAML list or a comma separated string
+function getFrontmatterList(frontmatter: Record<string, unknown>, ...keys: string[]): string[] {
+	const values: string[] = [];
+	keys.forEach(key => {
+		const value = frontmatter[key];
+		if (Array.isArray(value)) {
+			value.forEach(item => {
+				if (item !== null && item !== undefined) values.push(String(item).trim());
+			});
+		} else if (typeof value === 'string') {
+			value.split(',').forEach(item => values.push(item.trim()));
+		}
+	});
+	return values.filter(value => value.length > 0);
+}
 
-			constructor(view: EditorView) {
-				this.plugin = (window as any).app.plugins.plugins['obsidian-cross-vault'] as CrossVaultPlugin;
-				this.decorations = this.buildDecorations(view);
-			}
+function extractTags(content: string, frontmatter: Record<string, unknown>): string[] {
+	const tags = getFrontmatterList(frontmatter, 'tags', 'tag').map(tag => tag.replace(/^#/, ''));
 
-			update(update: ViewUpdate) {
-				if (update.docChanged || update.viewportChanged) {
-					this.decorations = this.buildDecorations(update.view);
-				}
-			}
+	getContentLines(content).forEach(line => {
+		if (line.skip || HEADING_REGEX.test(line.text)) return;
 
-			buildDecorations(view: EditorView) {
-				const widgets = [];
-				const content = view.state.doc.toString();
-				const urlRegex = /obsidian:\/\/open\?[^\s)]+/g;
-				let match;
+		const tagRegex = /(?:^|\s)#([A-Za-z0-9_/-]*[A-Za-z_/-][A-Za-z0-9_/-]*)/g;
+		let match;
+		while ((match = tagRegex.exec(line.text)) !== null) {
+			tags.push(match[1]);
+		}
+	});
 
-				while ((match = urlRegex.exec(content)) !== null) {
-					const parsedUrl = this.plugin.parseObsidianUrl(match[0]);
-					if (!parsedUrl) continue;
+	return tags.filter((tag, index) => tags.indexOf(tag) === index);
+}
 
-					const vaultMapping = this.plugin.getVaultMapping(parsedUrl.vault);
-					const from = match.index;
-					const to = from + match[0].length;
+// Force-directed layout: nodes repel each other, edges pull them together and every group is drawn to its own centre
+function layoutGraph(nodes: { id: string, group: string }[], edges: { from: string, to: string }[], groups: string[]): Map<string, GraphPoint> {
+	const spacing = 80;
+	const groupRadius = groups.length > 1 ? spacing * Math.sqrt(nodes.length + groups.length) : 0;
+	const centers = new Map<string, GraphPoint>();
+	groups.forEach((group, index) => {
+		const angle = (2 * Math.PI * index) / groups.length - Math.PI / 2;
+		centers.set(group, { x: groupRadius * Math.cos(angle), y: groupRadius * Math.sin(angle) });
+	});
 
-					// Add the link styling and replace text
-					const displayText = this.plugin.getDisplayText(parsedUrl);
-					widgets.push(Decoration.replace({
-						widget: new CrossVaultDisplayWidget(displayText, this.plugin, parsedUrl, vaultMapping),
-					}).range(from, to));
+	// Nodes start on a spiral around their group's centre, so the same graph always gets the same layout
+	const groupSizes = new Map<string, number>();
+	const points = nodes.map(node => {
+		const center = centers.get(node.group) || { x: 0, y: 0 };
+		const position = groupSizes.get(node.group) || 0;
+		groupSizes.set(node.group, position + 1);
+		const distance = spacing * Math.sqrt(position) / 2;
+		return { x: center.x + distance * Math.cos(position * 2.4), y: center.y + distance * Math.sin(position * 2.4) };
+	});
 
-					// Add the status widget
-					widgets.push(Decoration.widget({
-						widget: new CrossVaultLinkWidget(this.plugin, parsedUrl, vaultMapping),
-						side: 1
-					}).range(to));
-				}
+	const indexes = new Map<string, number>();
+	nodes.forEach((node, index) => indexes.set(node.id, index));
+	const links = edges
+		.map(edge => ({ from: indexes.get(edge.from), to: indexes.get(edge.to) }))
+		.filter(link => link.from !== undefined && link.to !== undefined) as { from: number, to: number }[];
 
-				return Decoration.set(widgets);
+	// Repulsion only reaches nodes in neighbouring grid cells, so a round costs about the same per node
+	// however large the graph is; distant nodes are kept apart by their group centres
+	const cellSize = spacing * 3;
+	const iterations = Math.min(300, Math.max(30, Math.floor(60000 / (nodes.length + 1))));
+	for (let iteration = 0; iteration < iterations; iteration++) {
+		const temperature = spacing * (1 - iteration / iterations) + 1;
+		const forces = points.map(() => ({ x: 0, y: 0 }));
+
+		const grid = new Map<string, number[]>();
+		points.forEach((point, index) => {
+			const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+			const cell = grid.get(key);
+			if (cell) {
+				cell.push(index);
+			} else {
+				grid.set(key, [index]);
 			}
-		}, {
-			decorations: (v: any) => v.decorations
 		});
-	}
 
-	private refreshCurrentNote() {
+		points.forEach((point, i) => {
+			const cellX = Math.floor(point.x / cellSize);
+			const cellY = Math.floor(point.y / cellSize);
+			for (let x = cellX - 1; x <= cellX + 1; x++) {
+				for (let y = cellY - 1; y <= cellY + 1; y++) {
+					(grid.get(`${x}:${y}`) || []).forEach(j => {
+						// Each pair is handled once, from its lower index
+						if (j <= i) return;
+
+						const dx = point.x - points[j].x;
+						const dy = point.y - points[j].y;
+						const factor = (spacing * spacing) / Math.max(dx * dx + dy * dy, 1);
+						forces[i].x += dx * factor;
+						forces[i].y += dy * factor;
+						forces[j].x -= dx * factor;
+						forces[j].y -= dy * factor;
+					});
+				}
+			}
+		});
+
+		links.forEach(link => {
+			const dx = points[link.from].x - points[link.to].x;
+			const dy = points[link.from].y - points[link.to].y;
+			const factor = Math.sqrt(dx * dx + dy * dy) / spacing;
+			forces[link.from].x -= dx * factor;
+			forces[link.from].y -= dy * factor;
+			forces[link.to].x += dx * factor;
+			forces[link.to].y += dy * factor;
+		});
+
+		points.forEach((point, index) => {
+			const center = centers.get(nodes[index].group) || { x: 0, y: 0 };
+			const force = forces[index];
+			force.x += (center.x - point.x) * 0.1;
+			force.y += (center.y - point.y) * 0.1;
+
+			const length = Math.sqrt(force.x * force.x + force.y * force.y);
+			if (length > 0) {
+				const step = Math.min(length, temperature) / length;
+				point.x += force.x * step;
+				point.y += force.y * step;
+			}
+		});
+	}
+
+	const positions = new Map<string, GraphPoint>();
+	nodes.forEach((node, index) => positions.set(node.id, points[index]));
+	return positions;
+}
+
+// Plain text is matched literally; an invalid regular expression throws
+function buildSearchRegExp(query: VaultSearchQuery): RegExp | null {
+	if (!query.text) return null;
+	return new RegExp(query.regex ? query.text : escapeRegExp(query.text), query.caseSensitive ? 'g' : 'gi');
+}
+
+// A note's frontmatter title, else its first alias, else its file name
+function getNoteTitle(indexed: IndexedFile): string {
+	const key = findFrontmatterKey(indexed.frontmatter, 'title');
+	const title = key === undefined ? null : indexed.frontmatter[key];
+	if (typeof title === 'string' && title.trim()) return title.trim();
+	return indexed.aliases.length > 0 ? indexed.aliases[0] : indexed.basename;
+}
+
+// Unknown tokens are left as written and separators left dangling by empty tokens are dropped;
+// a heading the template does not place is appended, so links to sections stay distinguishable
+function applyDisplayTemplate(template: string, values: Record<string, string>): string {
+	const text = template
+		.replace(/\{(\w+)\}/g, (match, token: string) => values[token] !== undefined ? values[token] : match)
+		.replace(/^[\s/>:|,-]+|[\s/>:|,-]+$/g, '');
+	const heading = values.heading && template.indexOf('{heading}') === -1 ? ` > ${values.heading}` : '';
+	return (text || values.basename) + heading;
+}
+
+function isInFolder(indexed: IndexedFile, folder: string): boolean {
+	const prefix = folder.trim().replace(/^\/+|\/+$/g, '').toLowerCase();
+	return !prefix || indexed.path.toLowerCase().startsWith(`${prefix}/`);
+}
+
+// #project also matches nested tags like #project/active
+function hasTag(indexed: IndexedFile, tag: string): boolean {
+	const target = tag.trim().replace(/^#/, '').toLowerCase();
+	return indexed.tags.some(candidate => candidate.toLowerCase() === target || candidate.toLowerCase().startsWith(`${target}/`));
+}
+
+// Unquoted YAML dates may come back as Date objects; they are compared as written, 2024-05-01
+function formatFrontmatterValue(value: unknown): string {
+	if (value instanceof Date) {
+		const iso = value.toISOString();
+		return iso.endsWith('T00:00:00.000Z') ? iso.substring(0, 10) : iso;
+	}
+	return String(value);
+}
+
+function findFrontmatterKey(frontmatter: Record<string, unknown>, field: string): string | undefined {
+	return Object.keys(frontmatter).find(candidate => candidate.toLowerCase() === field.trim().toLowerCase());
+}
+
+// Without an expected value the field only has to be present; list fields match when any item does
+function matchesFrontmatter(indexed: IndexedFile, field: string, expected?: string): boolean {
+	const key = findFrontmatterKey(indexed.frontmatter, field);
+	if (key === undefined) return false;
+	if (expected === undefined) return true;
+
+	const value = indexed.frontmatter[key];
+	const values = Array.isArray(value) ? value : [value];
+	return values.some(item => item !== null && item !== undefined && formatFrontmatterValue(item).toLowerCase() === expected.trim().toLowerCase());
+}
+
+// Folder, tag and frontmatter filters are checked against the index, before any content is read
+function matchesSearchFilters(indexed: IndexedFile, query: VaultSearchQuery): boolean {
+	if (!isInFolder(indexed, query.folder)) return false;
+	if (query.tag.trim() && !hasTag(indexed, query.tag)) return false;
+
+	const separator = query.frontmatter.indexOf(':');
+	const field = (separator === -1 ? query.frontmatter : query.frontmatter.substring(0, separator)).trim();
+	return !field || matchesFrontmatter(indexed, field, separator === -1 ? undefined : query.frontmatter.substring(separator + 1));
+}
+
+const VAULT_QUERY_OPTIONS = ['vault', 'folder', 'tag', 'tags', 'where', 'modified', 'sort', 'limit', 'format', 'columns'];
+
+// Reads the YAML options of a cross-vault-query block; anything it cannot use throws with a message for the reader
+function parseVaultQuery(source: string, now: Date): VaultQuery {
+	let parsed: unknown;
+	try {
+		parsed = parseYaml(source);
+	} catch (error) {
+		throw new Error('The query is not valid YAML');
+	}
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error('Expected "option: value" lines, starting with vault: <name>');
+	}
+
+	const options = parsed as Record<string, unknown>;
+	const unknownOption = Object.keys(options).find(key => VAULT_QUERY_OPTIONS.indexOf(key) === -1);
+	if (unknownOption) {
+		throw new Error(`Unknown option "${unknownOption}"`);
+	}
+	if (options.vault === undefined || options.vault === null || String(options.vault).trim() === '') {
+		throw new Error('Missing vault: <name>');
+	}
+
+	const where = options.where === undefined || options.where === null ? {} : options.where;
+	if (typeof where !== 'object' || Array.isArray(where)) {
+		throw new Error('where: expects "field: value" pairs on the lines below it');
+	}
+
+	const format = options.format === undefined ? 'list' : String(options.format).trim().toLowerCase();
+	if (format !== 'list' && format !== 'table') {
+		throw new Error('format: must be list or table');
+	}
+
+	const limit = options.limit === undefined ? 0 : Number(options.limit);
+	if (!(limit >= 0) || Math.floor(limit) !== limit) {
+		throw new Error('limit: must be a whole number');
+	}
+
+	const sort = String(options.sort === undefined ? 'name' : options.sort).trim().split(/\s+/);
+	if (sort.length > 2 || (sort[1] && sort[1].toLowerCase() !== 'asc' && sort[1].toLowerCase() !== 'desc')) {
+		throw new Error('sort: expects a field, optionally followed by asc or desc');
+	}
+
+	return {
+		vault: String(options.vault).trim(),
+		folder: options.folder === undefined || options.folder === null ? '' : String(options.folder),
+		tags: getFrontmatterList(options, 'tag', 'tags'),
+		where: where as Record<string, unknown>,
+		modified: options.modified === undefined || options.modified === null ? null : parseDateRange(formatFrontmatterValue(options.modified), now),
+		sort: sort[0],
+		descending: !!sort[1] && sort[1].toLowerCase() === 'desc',
+		limit,
+		format,
+		columns: getFrontmatterList(options, 'columns')
+	};
+}
+
+// Relative ranges (today, this week, last 7 days), calendar dates (2024, 2024-05, 2024-05-01),
+// ranges between two of those (a..b) and comparisons (>= 2024-01-01); weeks start on Monday
+function parseDateRange(text: string, now: Date): { from: number, to: number } {
+	const value = text.trim().toLowerCase();
+	const day = (offset: number) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset).getTime();
+
+	const between = value.split('..');
+	if (between.length === 2) {
+		return { from: parseDateRange(between[0], now).from, to: parseDateRange(between[1], now).to };
+	}
+
+	const comparison = value.match(/^(>=|<=|>|<)\s*(.+)$/);
+	if (comparison) {
+		const bound = parseDateRange(comparison[2], now);
+		if (comparison[1] === '>') return { from: bound.to, to: Infinity };
+		if (comparison[1] === '>=') return { from: bound.from, to: Infinity };
+		if (comparison[1] === '<') return { from: -Infinity, to: bound.from };
+		return { from: -Infinity, to: bound.to };
+	}
+
+	if (value === 'today') return { from: day(0), to: day(1) };
+	if (value === 'yesterday') return { from: day(-1), to: day(0) };
+	if (value === 'this week') {
+		const monday = -((now.getDay() + 6) % 7);
+		return { from: day(monday), to: day(monday + 7) };
+	}
+	if (value === 'this month') {
+		return { from: new Date(now.getFullYear(), now.getMonth(), 1).getTime(), to: new Date(now.getFullYear(), now.getMonth() + 1, 1).getTime() };
+	}
+	if (value === 'this year') {
+		return { from: new Date(now.getFullYear(), 0, 1).getTime(), to: new Date(now.getFullYear() + 1, 0, 1).getTime() };
+	}
+
+	// "last 7 days" ends with today
+	const last = value.match(/^last (\d+) (day|week|month|year)s?$/);
+	if (last) {
+		const count = parseInt(last[1], 10);
+		const from = last[2] === 'day' ? day(1 - count)
+			: last[2] === 'week' ? day(1 - count * 7)
+			: last[2] === 'month' ? new Date(now.getFullYear(), now.getMonth() - count, now.getDate() + 1).getTime()
+			: new Date(now.getFullYear() - count, now.getMonth(), now.getDate() + 1).getTime();
+		return { from, to: day(1) };
+	}
+
+	const date = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+	if (date) {
+		const year = parseInt(date[1], 10);
+		if (!date[2]) return { from: new Date(year, 0, 1).getTime(), to: new Date(year + 1, 0, 1).getTime() };
+		const month = parseInt(date[2], 10) - 1;
+		if (!date[3]) return { from: new Date(year, month, 1).getTime(), to: new Date(year, month + 1, 1).getTime() };
+		const dayOfMonth = parseInt(date[3], 10);
+		return { from: new Date(year, month, dayOfMonth).getTime(), to: new Date(year, month, dayOfMonth + 1).getTime() };
+	}
+
+	throw new Error(`modified: cannot read "${text.trim()}"`);
+}
+
+// Values a query can sort by: name, path and modified, or any frontmatter field
+function getQuerySortValue(indexed: IndexedFile, field: string): string | number | null {
+	const lowerField = field.toLowerCase();
+	if (lowerField === 'name') return indexed.basename.toLowerCase();
+	if (lowerField === 'path') return indexed.path.toLowerCase();
+	if (lowerField === 'modified') return indexed.mtime;
+
+	const key = findFrontmatterKey(indexed.frontmatter, field);
+	const value = key === undefined ? null : indexed.frontmatter[key];
+	if (value === null || value === undefined) return null;
+	return typeof value === 'number' ? value : formatFrontmatterValue(value).toLowerCase();
+}
+
+function runVaultQuery(files: IndexedFile[], query: VaultQuery): IndexedFile[] {
+	const matches = files.filter(indexed => {
+		if (!isInFolder(indexed, query.folder)) return false;
+		if (!query.tags.every(tag => hasTag(indexed, tag))) return false;
+		if (query.modified && (indexed.mtime < query.modified.from || indexed.mtime >= query.modified.to)) return false;
+
+		return Object.keys(query.where).every(field => {
+			const expected = query.where[field];
+			if (expected === '*') return matchesFrontmatter(indexed, field);
+			// A list in the query accepts any of its values
+			const accepted = Array.isArray(expected) ? expected : [expected];
+			return accepted.some(value => matchesFrontmatter(indexed, field, value === null || value === undefined ? '' : formatFrontmatterValue(value)));
+		});
+	});
+
+	// Notes without the sort field go last either way
+	matches.sort((a, b) => {
+		const valueA = getQuerySortValue(a, query.sort);
+		const valueB = getQuerySortValue(b, query.sort);
+		if (valueA === null || valueB === null) return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+
+		const order = typeof valueA === 'number' && typeof valueB === 'number' ? valueA - valueB : String(valueA).localeCompare(String(valueB));
+		return query.descending ? -order : order;
+	});
+
+	return query.limit > 0 ? matches.slice(0, query.limit) : matches;
+}
+
+function findSearchMatches(content: string, regex: RegExp): VaultSearchMatch[] {
+	const matches: VaultSearchMatch[] = [];
+	let subpath: string | undefined;
+
+	getContentLines(content).forEach((line, index) => {
+		const heading = line.skip ? null : line.text.match(HEADING_REGEX);
+		if (heading) subpath = `#${heading[2]}`;
+		if (matches.length >= MAX_SEARCH_MATCHES_PER_FILE) return;
+
+		const ranges: { from: number, to: number }[] = [];
+		regex.lastIndex = 0;
+		let match;
+		while ((match = regex.exec(line.text)) !== null) {
+			// Patterns like a* can match the empty string, which would never advance
+			if (match[0].length === 0) {
+				regex.lastIndex++;
+				continue;
+			}
+			ranges.push({ from: match.index, to: match.index + match[0].length });
+		}
+		if (ranges.length > 0) {
+			matches.push({ line: index, text: line.text, ranges, subpath });
+		}
+	});
+
+	return matches;
+}
+
+// Extracts the section of a note referenced by a heading (#Heading, #Parent#Child) or block (#^id) subpath
+function extractSubpath(content: string, subpath: string): string | null {
+	const parts = subpath.split('#').filter(part => part.length > 0);
+	if (parts.length === 0) return content;
+
+	const lines = getContentLines(content);
+
+	if (parts[parts.length - 1].startsWith('^')) {
+		const blockId = parts[parts.length - 1].substring(1);
+		const index = lines.findIndex(line => {
+			const match = !line.skip && line.text.match(BLOCK_ID_REGEX);
+			return match && match[1] === blockId;
+		});
+		if (index === -1) return null;
+
+		const stripBlockId = (text: string) => text.replace(BLOCK_ID_REGEX, '');
+
+		// A block id on its own line refers to the block directly above it
+		let end = index;
+		if (lines[index].text.trim() === `^${blockId}`) {
+			end = index - 1;
+			while (end >= 0 && lines[end].text.trim() === '') end--;
+			if (end < 0) return null;
+		}
+
+		// List items are blocks on their own; paragraphs extend to the surrounding blank lines
+		if (/^\s*([-*+]|\d+[.)])\s/.test(lines[end].text)) {
+			return stripBlockId(lines[end].text).trim();
+		}
+
+		let start = end;
+		while (start > 0 && !lines[start - 1].skip && lines[start - 1].text.trim() !== '' && !HEADING_REGEX.test(lines[start - 1].text)) start--;
+		return lines.slice(start, end + 1).map(line => stripBlockId(line.text)).join('\n').trim();
+	}
+
+	// Walk nested headings in order, each one searched below the previous match
+	let searchFrom = 0;
+	let start = -1;
+	let level = 0;
+	for (const part of parts) {
+		const target = normalizeHeading(part);
+		start = -1;
+		for (let i = searchFrom; i < lines.length; i++) {
+			if (lines[i].skip) continue;
+			const match = lines[i].text.match(HEADING_REGEX);
+			if (match && normalizeHeading(match[2]) === target) {
+				start = i;
+				level = match[1].length;
+				break;
+			}
+		}
+		if (start === -1) return null;
+		searchFrom = start + 1;
+	}
+
+	let end = lines.length;
+	for (let i = start + 1; i < lines.length; i++) {
+		if (lines[i].skip) continue;
+		const match = lines[i].text.match(HEADING_REGEX);
+		if (match && match[1].length <= level) {
+			end = i;
+			break;
+		}
+	}
+
+	return lines.slice(start, end).map(line => line.text).join('\n').trim();
+}
+
+export default class CrossVaultPlugin extends Plugin {
+	settings!: CrossVaultSettings;
+	indexEvents = new Events();
+	localCache!: LocalCache;
+	knownVaults: KnownVault[] = [];
+	private vaultIndexes = new Map<string, VaultIndex>();
+	private hoverPreview: CrossVaultHoverPreview | null = null;
+	// Cross-vault links of this vault's notes, extracted again only when a note's mtime changes
+	private fileLinks = new Map<string, { mtime: number, links: IndexedLink[] }>();
+	// Fixes offered by the last broken link report, applied without asking again
+	private offeredRepairs = new Set<string>();
+
+	async onload() {
+		await this.loadSettings();
+
+		this.localCache = new LocalCache(this);
+		await this.localCache.load();
+
+		// Lets links name vaults by registry id or absolute path
+		this.knownVaults = await readKnownVaults();
+
+		// Build the vault indexes in the background once the workspace is ready
+		this.app.workspace.onLayoutReady(() => {
+			this.syncVaultIndexes();
+		});
+
+		// Add settings tab
+		this.addSettingTab(new CrossVaultSettingTab(this.app, this));
+
+		// Add command to insert cross-vault link
+		this.addCommand({
+			id: 'insert-cross-vault-link',
+			name: 'Insert Link from Another Vault',
+			editorCallback: (editor: Editor) => {
+				new VaultFileSuggestModal(this.app, this, (vaultFile, mode, alias) => {
+					if (vaultFile) {
+						editor.replaceSelection(this.formatVaultFileLink(vaultFile, mode, alias));
+					}
+				}).open();
+			}
+		});
+
+		// Register context menu for cross-vault links
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor) => {
+				const selection = editor.getSelection();
+				const parsedUrl = this.parseCrossVaultLink(selection.trim());
+				if (parsedUrl) {
+					menu.addItem((item) => {
+						item.setTitle('Map Vault')
+							.setIcon('folder-plus')
+							.onClick(() => {
+								this.showVaultMappingDialog(parsedUrl);
+							});
+					});
+				}
+			})
+		);
+
+		// Suggest vaults, notes and headings while typing a cross-vault link
+		this.registerEditorSuggest(new CrossVaultEditorSuggest(this.app, this));
+
+		// Register the backlinks pane listing notes in mapped vaults that link here
+		this.registerView(BACKLINKS_VIEW_TYPE, (leaf) => new CrossVaultBacklinksView(leaf, this));
+
+		this.addCommand({
+			id: 'open-cross-vault-backlinks',
+			name: 'Open Cross-Vault Backlinks',
+			callback: () => {
+				this.activateView(BACKLINKS_VIEW_TYPE);
+			}
+		});
+
+		// Register the read-only viewer for notes of mapped vaults
+		this.registerView(NOTE_VIEW_TYPE, (leaf) => new CrossVaultNoteView(leaf, this));
+
+		// Register the full-text search across every mapped vault
+		this.registerView(SEARCH_VIEW_TYPE, (leaf) => new CrossVaultSearchView(leaf, this));
+
+		// Register the graph of cross-vault links
+		this.registerView(GRAPH_VIEW_TYPE, (leaf) => new CrossVaultGraphView(leaf, this));
+		this.registerHoverLinkSource(GRAPH_VIEW_TYPE, { display: 'Cross-Vault Graph', defaultMod: false });
+
+		this.addCommand({
+			id: 'open-cross-vault-graph',
+			name: 'Open Cross-Vault Graph',
+			callback: async () => {
+				const existing = this.app.workspace.getLeavesOfType(GRAPH_VIEW_TYPE);
+				const leaf = existing.length > 0 ? existing[0] : this.app.workspace.getLeaf('tab');
+				if (existing.length === 0) {
+					await leaf.setViewState({ type: GRAPH_VIEW_TYPE, active: true });
+				}
+				this.app.workspace.revealLeaf(leaf);
+			}
+		});
+
+		this.addCommand({
+			id: 'search-cross-vault',
+			name: 'Search All Mapped Vaults',
+			callback: () => {
+				this.openSearchView();
+			}
+		});
+
+		// Register markdown processor for obsidian:// links in preview mode
+		this.registerMarkdownProcessor();
+
+		// Register editor extension for live preview
+		this.registerEditorExtension([
+			this.editorLivePreviewExtension()
+		]);
+
+		// Register commands to switch a note between obsidian:// URLs and [[Vault::file]] links
+		this.addCommand({
+			id: 'convert-cross-vault-links-to-compact',
+			name: 'Convert Cross-Vault Links to [[Vault::File]] Syntax',
+			editorCallback: (editor: Editor) => {
+				this.convertLinksInEditor(editor, true);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-cross-vault-links-to-urls',
+			name: 'Convert Cross-Vault Links to obsidian:// URLs',
+			editorCallback: (editor: Editor) => {
+				this.convertLinksInEditor(editor, false);
+			}
+		});
+
+		// Push edits of cached copies back to their source vault
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file instanceof TFile) {
+				this.localCache.queueWriteBack(file);
+			}
+		}));
+
+		// Offer to update links when notes move inside a mapped vault
+		this.registerEvent(this.onFilesMoved((vaultName, moves) => {
+			this.proposeMoveRewrites(vaultName, moves);
+		}));
+
+		// Register command to write a report of every broken cross-vault link in this vault
+		this.addCommand({
+			id: 'report-broken-cross-vault-links',
+			name: 'Report Broken Cross-Vault Links',
+			callback: () => {
+				this.writeBrokenLinkReport();
+			}
+		});
+
+		// Fix links in the report note are obsidian://cross-vault-repair URLs
+		this.registerObsidianProtocolHandler('cross-vault-repair', (params) => {
+			this.handleRepairAction(params);
+		});
+
+		// Register commands to maintain the local cache
+		this.addCommand({
+			id: 'refresh-cross-vault-cache',
+			name: 'Refresh All Cached Notes',
+			callback: async () => {
+				const result = await this.localCache.refreshAll();
+				new Notice(`Cached notes: ${result.refreshed} refreshed, ${result.unchanged} up to date, ${result.missing} missing from their vault`);
+			}
+		});
+
+		this.addCommand({
+			id: 'evict-cross-vault-cache',
+			name: 'Remove Unused Cached Notes',
+			callback: async () => {
+				const evicted = await this.localCache.evictUnused();
+				new Notice(evicted > 0 ? `Removed ${evicted} unused cached note${evicted === 1 ? '' : 's'}` : 'No unused cached notes');
+			}
+		});
+
+		// Register command to rescan every mapped vault
+		this.addCommand({
+			id: 'rebuild-cross-vault-index',
+			name: 'Rebuild Vault Indexes',
+			callback: async () => {
+				new Notice('Rebuilding cross-vault indexes...');
+				await Promise.all(this.settings.vaultMappings.map(mapping => this.getVaultIndex(mapping).rebuild()));
+				new Notice('Cross-vault indexes rebuilt');
+			}
+		});
+
+		// Register command to rewrite links that still use an old vault name
+		this.addCommand({
+			id: 'update-renamed-vault-links',
+			name: 'Update Links to Renamed Vaults',
+			callback: async () => {
+				await this.proposeRenameRewrites();
+			}
+		});
+
+		// Register command to refresh cross-vault links
+		this.addCommand({
+			id: 'refresh-cross-vault-links',
+			name: 'Refresh Cross-Vault Links',
+			callback: () => {
+				this.refreshCurrentNote();
+			}
+		});
+	}
+
+	onunload() {
+		this.localCache.close();
+		this.vaultIndexes.forEach(index => index.close());
+		this.vaultIndexes.clear();
+	}
+
+	async loadSettings() {
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		this.syncVaultIndexes();
+	}
+
+	// Keeps one index per mapping, rebuilding it when the mapping's path or type changes
+	syncVaultIndexes() {
+		const names = this.settings.vaultMappings.map(mapping => mapping.name);
+
+		this.vaultIndexes.forEach((index, name) => {
+			if (names.indexOf(name) === -1) {
+				index.close(false);
+				index.deletePersisted();
+				this.vaultIndexes.delete(name);
+			}
+		});
+
+		this.settings.vaultMappings.forEach(mapping => {
+			const existing = this.vaultIndexes.get(mapping.name);
+			if (existing && existing.root === getVaultSourceRoot(this.resolveVaultMapping(mapping)) && existing.type === (mapping.type || 'local')) {
+				existing.vaultMapping = mapping;
+				return;
+			}
+			if (existing) {
+				existing.close();
+			}
+
+			const index = new VaultIndex(this, mapping);
+			this.vaultIndexes.set(mapping.name, index);
+			index.start();
+		});
+	}
+
+	getVaultIndex(vaultMapping: VaultMapping): VaultIndex {
+		let index = this.vaultIndexes.get(vaultMapping.name);
+		if (!index) {
+			index = new VaultIndex(this, vaultMapping);
+			this.vaultIndexes.set(vaultMapping.name, index);
+			index.start();
+		}
+		return index;
+	}
+
+	getVaultSource(vaultMapping: VaultMapping): VaultSource {
+		return this.getVaultIndex(vaultMapping).source;
+	}
+
+	// Vaults Obsidian has opened on this device, other than this one
+	async getKnownVaults(): Promise<KnownVault[]> {
+		this.knownVaults = await readKnownVaults();
+		const basePath = this.getVaultBasePath();
+		return this.knownVaults.filter(vault => !basePath || path.resolve(vault.path) !== path.resolve(basePath));
+	}
+
+	// Relative mapping paths are resolved against this vault's folder
+	getVaultBasePath(): string {
+		const adapter = this.app.vault.adapter;
+		return adapter instanceof FileSystemAdapter ? adapter.getBasePath() : '';
+	}
+
+	// The mapping with its path as used on this device
+	resolveVaultMapping(vaultMapping: VaultMapping): VaultMapping {
+		return { ...vaultMapping, path: resolveMappingPath(vaultMapping, this.getVaultBasePath()) };
+	}
+
+	// Obsidian can only open notes in a folder on disk, so every other mapping goes through the cache
+	usesLocalCache(vaultMapping: VaultMapping): boolean {
+		return vaultMapping.enableLocalCache || (!!vaultMapping.type && vaultMapping.type !== 'local');
+	}
+
+	// Describes the git revision a note is read from, or null for other mappings
+	async getRevisionLabel(vaultMapping: VaultMapping, ref?: string): Promise<string | null> {
+		const source = this.getVaultSource(vaultMapping);
+		if (!(source instanceof GitVaultSource)) return null;
+
+		try {
+			return await source.describe(ref);
+		} catch (error) {
+			return ref || vaultMapping.ref || 'HEAD';
+		}
+	}
+
+	async activateView(viewType: string) {
+		const existing = this.app.workspace.getLeavesOfType(viewType);
+		const leaf = existing.length > 0 ? existing[0] : this.app.workspace.getRightLeaf(false);
+		if (!leaf) return;
+
+		if (existing.length === 0) {
+			await leaf.setViewState({ type: viewType, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// The query, when given, replaces the one shown in the search view
+	async openSearchView(query?: Partial<VaultSearchQuery>) {
+		await this.activateView(SEARCH_VIEW_TYPE);
+		const leaf = this.app.workspace.getLeavesOfType(SEARCH_VIEW_TYPE)[0];
+		if (leaf && query) {
+			await leaf.setViewState({ type: SEARCH_VIEW_TYPE, active: true, state: query as unknown as Record<string, unknown> });
+		}
+	}
+
+	// Filters narrow the notes through the index, so only the remaining ones are read
+	async searchVaults(query: VaultSearchQuery, isCancelled: () => boolean): Promise<VaultSearchResult[]> {
+		const regex = buildSearchRegExp(query);
+		const results: VaultSearchResult[] = [];
+
+		for (const vaultMapping of this.settings.vaultMappings) {
+			if (query.vault && this.getVaultMapping(query.vault) !== vaultMapping) continue;
+
+			const index = this.getVaultIndex(vaultMapping);
+			await index.whenReady();
+			for (const indexed of index.getFiles()) {
+				if (isCancelled() || results.length >= MAX_SEARCH_RESULTS) return results;
+				if (!matchesSearchFilters(indexed, query)) continue;
+
+				if (!regex) {
+					results.push({ vaultMapping, indexed, matches: [] });
+					continue;
+				}
+
+				let content: string;
+				try {
+					content = await index.source.read(indexed.path);
+				} catch (error) {
+					continue;
+				}
+
+				const matches = findSearchMatches(content, regex);
+				if (matches.length > 0) {
+					results.push({ vaultMapping, indexed, matches });
+				}
+			}
+		}
+
+		return results;
+	}
+
+	// Notes joined by cross-vault links: those written in this vault, and optionally those inside the mapped vaults
+	async buildLinkGraph(includeMappedVaults: boolean): Promise<LinkGraph> {
+		const thisVault = this.app.vault.getName();
+		const cacheFolder = normalizePath(this.settings.cacheFolder) + '/';
+		const vaults = [thisVault].concat(this.settings.vaultMappings.map(mapping => mapping.name));
+		const nodes = new Map<string, LinkGraphNode>();
+		const edges = new Map<string, LinkGraphEdge>();
+
+		const addNode = (vault: string, notePath: string, exists: boolean): string => {
+			const id = `${vault}::${notePath}`;
+			if (!nodes.has(id)) nodes.set(id, { id, vault, path: notePath, exists });
+			if (vaults.indexOf(vault) === -1) vaults.push(vault);
+			return id;
+		};
+		const addEdge = (from: string, to: string) => {
+			if (from === to) return;
+			const key = `${from}\n${to}`;
+			const edge = edges.get(key);
+			if (edge) {
+				edge.count++;
+			} else {
+				edges.set(key, { from, to, count: 1 });
+			}
+		};
+		// Many links name the same note, and resolving a name scans the whole index
+		const targets = new Map<string, string>();
+		const addTarget = (link: IndexedLink): string => {
+			const key = `${link.vault}\n${link.file}`;
+			let target = targets.get(key);
+			if (target === undefined) {
+				target = resolveTarget(link);
+				targets.set(key, target);
+			}
+			return target;
+		};
+		const resolveTarget = (link: IndexedLink): string => {
+			const vaultMapping = this.getVaultMapping(link.vault);
+			if (vaultMapping) {
+				const indexed = this.getVaultIndex(vaultMapping).resolve(link.file);
+				return addNode(vaultMapping.name, indexed ? indexed.path.replace(/\.md$/, '') : link.file, !!indexed);
+			}
+			if (link.vault.toLowerCase() === thisVault.toLowerCase()) {
+				const file = this.app.metadataCache.getFirstLinkpathDest(link.file, '');
+				return addNode(thisVault, file ? file.path.replace(/\.md$/, '') : link.file, !!file);
+			}
+			return addNode(link.vault, link.file, false);
+		};
+
+		// Cached copies repeat links of their source vault and the report lists every broken link
+		const files = this.app.vault.getMarkdownFiles();
+		const paths = new Set(files.map(file => file.path));
+		this.fileLinks.forEach((links, filePath) => {
+			if (!paths.has(filePath)) this.fileLinks.delete(filePath);
+		});
+
+		for (const file of files) {
+			if (file.path.startsWith(cacheFolder) || file.path === BROKEN_LINK_REPORT_PATH) continue;
+
+			const links = await this.getFileLinks(file);
+			if (links.length === 0) continue;
+
+			const from = addNode(thisVault, file.path.replace(/\.md$/, ''), true);
+			links.forEach(link => addEdge(from, addTarget(link)));
+		}
+
+		if (includeMappedVaults) {
+			for (const vaultMapping of this.settings.vaultMappings) {
+				const index = this.getVaultIndex(vaultMapping);
+				await index.whenReady();
+				index.getFiles().forEach(indexed => {
+					if (indexed.links.length === 0) return;
+
+					const from = addNode(vaultMapping.name, indexed.path.replace(/\.md$/, ''), true);
+					indexed.links.forEach(link => addEdge(from, addTarget(link)));
+				});
+			}
+		}
+
+		return { vaults, nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+	}
+
+	private async getFileLinks(file: TFile): Promise<IndexedLink[]> {
+		const cached = this.fileLinks.get(file.path);
+		if (cached && cached.mtime === file.stat.mtime) return cached.links;
+
+		const links = this.extractCrossVaultLinks(await this.app.vault.cachedRead(file));
+		this.fileLinks.set(file.path, { mtime: file.stat.mtime, links });
+		return links;
+	}
+
+	// Finds links in the mapped vaults that point at a note of the current vault
+	findBacklinks(file: TFile): { vaultMapping: VaultMapping, indexed: IndexedFile, link: IndexedLink }[] {
+		const vaultName = this.app.vault.getName().toLowerCase();
+		const targetPath = file.path.replace(/\.md$/, '').toLowerCase();
+		const targetBasename = file.basename.toLowerCase();
+		const backlinks: { vaultMapping: VaultMapping, indexed: IndexedFile, link: IndexedLink }[] = [];
+
+		this.settings.vaultMappings.forEach(vaultMapping => {
+			this.getVaultIndex(vaultMapping).getFiles().forEach(indexed => {
+				indexed.links.forEach(link => {
+					if (link.vault.toLowerCase() !== vaultName) return;
+
+					const linkFile = link.file.replace(/\.md$/, '').replace(/^\/+/, '').toLowerCase();
+					if (linkFile === targetPath || linkFile === targetBasename) {
+						backlinks.push({ vaultMapping, indexed, link });
+					}
+				});
+			});
+		});
+
+		return backlinks;
+	}
+
+	async findBrokenLinks(): Promise<BrokenCrossVaultLink[]> {
+		const cacheFolder = normalizePath(this.settings.cacheFolder) + '/';
+		const brokenLinks: BrokenCrossVaultLink[] = [];
+
+		for (const source of this.app.vault.getMarkdownFiles()) {
+			// Cached copies mirror notes from other vaults, which this vault cannot repair
+			if (source.path === BROKEN_LINK_REPORT_PATH || source.path.startsWith(cacheFolder)) continue;
+
+			const content = await this.app.vault.cachedRead(source);
+			for (const link of this.extractCrossVaultLinks(content)) {
+				const parsedUrl = this.parseCrossVaultLink(link.raw);
+				if (!parsedUrl) continue;
+
+				const vaultMapping = this.getVaultMapping(parsedUrl.vault);
+				if (!vaultMapping) {
+					brokenLinks.push({ source, link, parsedUrl, reason: 'unmapped', candidates: [] });
+					continue;
+				}
+
+				const fileContent = await this.getFileFromVault(vaultMapping, parsedUrl.file, parsedUrl.ref);
+				if (fileContent === null) {
+					// Notes with the same basename elsewhere in the vault are likely move targets
+					const basename = (parsedUrl.file.split('/').pop() || '').replace(/\.md$/, '').toLowerCase();
+					const candidates = this.getVaultIndex(vaultMapping).getFiles()
+						.filter(indexed => indexed.basename.toLowerCase() === basename)
+						.map(indexed => indexed.path.replace(/\.md$/, ''));
+					brokenLinks.push({ source, link, parsedUrl, reason: 'missing-file', candidates });
+				} else if (parsedUrl.subpath && extractSubpath(fileContent, parsedUrl.subpath) === null) {
+					brokenLinks.push({ source, link, parsedUrl, reason: 'missing-subpath', candidates: [] });
+				}
+			}
+		}
+
+		return brokenLinks;
+	}
+
+	async writeBrokenLinkReport() {
+		new Notice('Checking cross-vault links...');
+		await Promise.all(this.settings.vaultMappings.map(mapping => this.getVaultIndex(mapping).whenReady()));
+
+		const brokenLinks = await this.findBrokenLinks();
+		this.offeredRepairs.clear();
+		const sources = brokenLinks.map(broken => broken.source.path).filter((source, index, all) => all.indexOf(source) === index);
+		const lines = [
+			'# Cross-Vault Link Report',
+			'',
+			`Generated ${new Date().toLocaleString()}. ${brokenLinks.length} broken link${brokenLinks.length === 1 ? '' : 's'} in ${sources.length} note${sources.length === 1 ? '' : 's'}.`
+		];
+
+		const sections: { reason: BrokenLinkReason, title: string }[] = [
+			{ reason: 'unmapped', title: 'Unmapped vault' },
+			{ reason: 'missing-file', title: 'Missing file' },
+			{ reason: 'missing-subpath', title: 'Missing heading or block' }
+		];
+
+		sections.forEach(({ reason, title }) => {
+			const group = brokenLinks.filter(broken => broken.reason === reason);
+			if (group.length === 0) return;
+
+			lines.push('', `## ${title} (${group.length})`);
+			if (reason === 'unmapped') {
+				// Unmapped links are fixed once per vault, so they are listed under their vault
+				const vaultNames = group.map(broken => broken.parsedUrl.vault).filter((name, index, all) => all.indexOf(name) === index);
+				vaultNames.forEach(vaultName => {
+					lines.push('', `### ${vaultName} — [Map vault](${this.buildRepairUrl({ vaultName })})`);
+					group.filter(broken => broken.parsedUrl.vault === vaultName).forEach(broken => lines.push(this.formatBrokenLink(broken)));
+				});
+				return;
+			}
+
+			lines.push('');
+			group.forEach(broken => {
+				const offerRepair = (replace: string) => {
+					this.offeredRepairs.add(this.getRepairKey(broken.source.path, broken.link.raw, replace));
+					return this.buildRepairUrl({ source: broken.source.path, find: broken.link.raw, replace });
+				};
+				const fixes = broken.reason === 'missing-file'
+					? broken.candidates.map(candidate => `[Re-point to ${candidate}](${offerRepair(this.formatLinkLike(broken.link.raw, { ...broken.parsedUrl, file: candidate }))})`)
+					: [`[Link to the whole note](${offerRepair(this.formatLinkLike(broken.link.raw, { ...broken.parsedUrl, subpath: undefined }))})`];
+				lines.push(this.formatBrokenLink(broken) + (fixes.length > 0 ? ` → ${fixes.join(', ')}` : ''));
+			});
+		});
+
+		const report = lines.join('\n') + '\n';
+		const existing = this.app.vault.getAbstractFileByPath(BROKEN_LINK_REPORT_PATH);
+		let reportFile: TFile;
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, report);
+			reportFile = existing;
+		} else {
+			reportFile = await this.app.vault.create(BROKEN_LINK_REPORT_PATH, report);
+		}
+
+		await this.app.workspace.getLeaf().openFile(reportFile);
+		new Notice(brokenLinks.length > 0 ? `Found ${brokenLinks.length} broken cross-vault links` : 'No broken cross-vault links found');
+	}
+
+	private formatBrokenLink(broken: BrokenCrossVaultLink): string {
+		return `- [[${broken.source.path.replace(/\.md$/, '')}]] (line ${broken.link.line + 1}): \`${broken.link.raw}\``;
+	}
+
+	private buildRepairUrl(params: Record<string, string>): string {
+		// Parentheses would end the markdown link the URL is written into
+		const encode = (value: string) => encodeURIComponent(value).replace(/[()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+		const query = Object.keys(params).map(key => `${key}=${encode(params[key])}`).join('&');
+		return `obsidian://cross-vault-repair?${query}`;
+	}
+
+	private getRepairKey(source: string, find: string, replace: string): string {
+		return `${source}\n${find}\n${replace}`;
+	}
+
+	private async handleRepairAction(params: ObsidianProtocolData) {
+		if (params.vaultName) {
+			this.showVaultMappingDialog({ vault: params.vaultName, file: '', originalUrl: '' });
+			return;
+		}
+
+		const source = this.app.vault.getAbstractFileByPath(params.source || '');
+		if (!(source instanceof TFile) || !params.find || !params.replace) {
+			new Notice('Cannot repair link: the source note no longer exists');
+			return;
+		}
+
+		// Any page can open a repair URL, so only cross-vault links are replaced
+		if (!this.parseCrossVaultLink(params.find) || !this.parseCrossVaultLink(params.replace)) {
+			new Notice('Cannot repair link: only cross-vault links can be repaired');
+			return;
+		}
+
+		// Fixes that the current report did not offer, such as those of an older report, are confirmed first
+		if (!this.offeredRepairs.has(this.getRepairKey(source.path, params.find, params.replace))) {
+			const confirmed = await new ConfirmModal(this.app, 'Repair Cross-Vault Link',
+				`Replace ${params.find} with ${params.replace} in ${source.path}?`, 'Replace').ask();
+			if (!confirmed) return;
+		}
+
+		// Links are located by their text rather than line number, which may have shifted
+		const replaced = await this.applyLinkRewrites([{ source, line: 0, before: params.find, after: params.replace }]);
+
+		if (replaced > 0) {
+			new Notice(`Repaired link in ${source.basename}`);
+			await this.writeBrokenLinkReport();
+		} else {
+			new Notice(`Link not found in ${source.basename}, it may have been changed already`);
+		}
+	}
+
+	// Formats a link target in the same syntax (URL or compact, embed or not) as an existing link
+	formatLinkLike(raw: string, parsedUrl: ObsidianUrl): string {
+		if (this.isObsidianUrl(raw)) {
+			return buildObsidianUrl(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath, parsedUrl.ref);
+		}
+		return buildCompactLink(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath, parsedUrl.alias, raw.startsWith('!'));
+	}
+
+	async proposeMoveRewrites(vaultName: string, moves: IndexedMove[]) {
+		const vaultMapping = this.getVaultMapping(vaultName);
+		if (!this.settings.followExternalMoves || !vaultMapping) return;
+
+		const movedPaths = new Map<string, string>();
+		moves.forEach(move => movedPaths.set(move.from.replace(/\.md$/, '').toLowerCase(), move.to.replace(/\.md$/, '')));
+
+		// Links by bare note name still resolve after a move, only links by the old path need rewriting
+		const rewrites = await this.findLinkRewrites(parsedUrl => {
+			if (this.getVaultMapping(parsedUrl.vault) !== vaultMapping) return null;
+
+			const movedTo = movedPaths.get(parsedUrl.file.replace(/\.md$/, '').replace(/^\/+/, '').toLowerCase());
+			return movedTo ? { ...parsedUrl, file: movedTo } : null;
+		});
+		if (rewrites.length === 0) return;
+
+		const description = moves.length === 1
+			? `"${moves[0].from}" was moved to "${moves[0].to}" in ${vaultName}.`
+			: `${moves.length} notes were moved in ${vaultName}.`;
+		new LinkRewriteModal(this.app, this, 'Update Moved Cross-Vault Links', `${description} Review the links to rewrite in this vault:`, rewrites).open();
+	}
+
+	// Links naming a vault by an alias or in another case are rewritten to the mapping's name,
+	// changing only the vault so search, new and vault links keep their other parameters
+	async proposeRenameRewrites() {
+		const cacheFolder = normalizePath(this.settings.cacheFolder) + '/';
+		const rewrites: LinkRewrite[] = [];
+
+		for (const source of this.app.vault.getMarkdownFiles()) {
+			// Cached copies are restored to their source text on write-back, so their links are left alone
+			if (source.path.startsWith(cacheFolder)) continue;
+
+			this.matchCrossVaultLinks(await this.app.vault.cachedRead(source)).forEach(({ raw, parsedUrl, line }) => {
+				const vaultMapping = this.getVaultMapping(parsedUrl.vault);
+				if (!vaultMapping || vaultMapping.name === parsedUrl.vault) return;
+
+				const after = renameVaultInLink(raw, vaultMapping.name);
+				if (after !== raw) {
+					rewrites.push({ source, line, before: raw, after });
+				}
+			});
+		}
+
+		if (rewrites.length === 0) {
+			new Notice('All cross-vault links already use the current vault names');
+			return;
+		}
+
+		new LinkRewriteModal(this.app, this, 'Update Links to Renamed Vaults', 'These links name a vault by an alias or an old name. Review the links to rewrite to the current vault names:', rewrites).open();
+	}
+
+	// Scans this vault for cross-vault links and collects the ones the callback retargets
+	async findLinkRewrites(retarget: (parsedUrl: ObsidianUrl) => ObsidianUrl | null): Promise<LinkRewrite[]> {
+		const cacheFolder = normalizePath(this.settings.cacheFolder) + '/';
+		const rewrites: LinkRewrite[] = [];
+
+		for (const source of this.app.vault.getMarkdownFiles()) {
+			// Cached copies are restored to their source text on write-back, so their links are left alone
+			if (source.path.startsWith(cacheFolder)) continue;
+
+			const content = await this.app.vault.cachedRead(source);
+			this.extractCrossVaultLinks(content).forEach(link => {
+				const parsedUrl = this.parseCrossVaultLink(link.raw);
+				const retargeted = parsedUrl ? retarget(parsedUrl) : null;
+				if (!retargeted) return;
+
+				const after = this.formatLinkLike(link.raw, retargeted);
+				if (after !== link.raw) {
+					rewrites.push({ source, line: link.line, before: link.raw, after });
+				}
+			});
+		}
+
+		return rewrites;
+	}
+
+	async applyLinkRewrites(rewrites: LinkRewrite[]): Promise<number> {
+		let count = 0;
+		const sources = rewrites.map(rewrite => rewrite.source).filter((source, index, all) => all.indexOf(source) === index);
+
+		for (const source of sources) {
+			await this.app.vault.process(source, (data) => {
+				rewrites.filter(rewrite => rewrite.source === source).forEach(rewrite => {
+					// A URL must not be matched as the prefix of a longer URL
+					const boundary = this.isObsidianUrl(rewrite.before) ? '(?=[\\s)]|$)' : '';
+					const pattern = new RegExp(escapeRegExp(rewrite.before) + boundary, 'g');
+					data = data.replace(pattern, () => {
+						count++;
+						return rewrite.after;
+					});
+				});
+				return data;
+			});
+		}
+
+		return count;
+	}
+
+	onFilesMoved(callback: (vaultName: string, moves: IndexedMove[]) => void): EventRef {
+		return this.indexEvents.on('moved', (vaultName, moves) => callback(vaultName as string, moves as IndexedMove[]));
+	}
+
+	onIndexChanged(callback: (vaultName: string, paths: string[]) => void): EventRef {
+		return this.indexEvents.on('changed', (vaultName, paths) => callback(vaultName as string, paths as string[]));
+	}
+
+	getIndexStoragePath(vaultName: string): string {
+		return this.getStoragePath(`index/${encodeURIComponent(vaultName)}.json`);
+	}
+
+	getStoragePath(relativePath: string): string {
+		return normalizePath(`${this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/${relativePath}`);
+	}
+
+	private registerMarkdownProcessor() {
+		this.registerMarkdownPostProcessor((element, context) => {
+			const links = element.querySelectorAll('a[href^="obsidian://"]');
+			links.forEach((link) => {
+				const parsedUrl = this.parseObsidianUrl((link as HTMLAnchorElement).href);
+				if (parsedUrl) {
+					this.processObsidianLink(link as HTMLAnchorElement, parsedUrl);
+				}
+			});
+
+			// [[Vault::file]] is rendered as an unresolved internal link, turn it into a cross-vault link
+			const wikilinks = element.querySelectorAll('a.internal-link[data-href*="::"]');
+			wikilinks.forEach((link) => {
+				this.processCompactLink(link as HTMLAnchorElement);
+			});
+
+			// ![](obsidian://open?...) is rendered as an image, replace it with the note itself
+			const embeds = element.querySelectorAll('img[src^="obsidian://"]');
+			embeds.forEach((embed) => {
+				this.processObsidianEmbed(embed as HTMLElement, embed.getAttribute('src') || '', context);
+			});
+
+			const compactEmbeds = element.querySelectorAll('.internal-embed[src*="::"]');
+			compactEmbeds.forEach((embed) => {
+				this.processObsidianEmbed(embed as HTMLElement, embed.getAttribute('src') || '', context);
+			});
+		});
+
+		// Render cross-vault code blocks as embeds of the linked note
+		this.registerMarkdownCodeBlockProcessor('cross-vault', (source, element, context) => {
+			const link = source.trim().split(/\r?\n/)[0].trim();
+			const parsedUrl = this.parseCrossVaultLink(link);
+			if (!parsedUrl || parsedUrl.action) {
+				element.createDiv({ cls: 'cross-vault-embed cross-vault-error', text: 'Invalid cross-vault embed: expected a link to a note, such as obsidian://open or [[Vault::file]]' });
+				return;
+			}
+
+			context.addChild(new CrossVaultEmbed(element.createDiv(), this, parsedUrl));
+		});
+
+		// Render cross-vault-query code blocks as a live list of matching notes
+		this.registerMarkdownCodeBlockProcessor('cross-vault-query', (source, element, context) => {
+			context.addChild(new CrossVaultQueryBlock(element, this, source, context.sourcePath));
+		});
+	}
+
+	private processObsidianEmbed(embedElement: HTMLElement, link: string, context: MarkdownPostProcessorContext) {
+		const parsedUrl = this.isObsidianUrl(link) ? this.parseObsidianUrl(link) : this.parseCompactLink(link);
+		if (!parsedUrl || parsedUrl.action) return;
+
+		const containerElement = document.createElement('div');
+		embedElement.replaceWith(containerElement);
+		context.addChild(new CrossVaultEmbed(containerElement, this, parsedUrl));
+	}
+
+	private processCompactLink(linkElement: HTMLAnchorElement) {
+		const linktext = linkElement.getAttribute('data-href') || '';
+		const parsedUrl = this.parseCompactLink(linktext);
+		if (!parsedUrl) return;
+
+		// Text that differs from the link target is the |alias
+		if (linkElement.textContent && linkElement.textContent !== linktext) {
+			parsedUrl.alias = linkElement.textContent;
+		}
+
+		// Detach the link from Obsidian's internal link handling so it behaves like an obsidian:// link
+		linkElement.removeAttribute('data-href');
+		linkElement.removeClass('internal-link', 'is-unresolved');
+		linkElement.href = buildObsidianUrl(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath);
+		this.processObsidianLink(linkElement, parsedUrl);
+	}
+
+	private async processObsidianLink(linkElement: HTMLAnchorElement, parsedUrl: ObsidianUrl) {
+		const vaultMapping = this.getVaultMapping(parsedUrl.vault);
+		
+		if (!vaultMapping) {
+			this.addUnmappedVaultIndicator(linkElement, parsedUrl.vault);
+			return;
+		}
+
+		if (parsedUrl.action) {
+			this.enhanceActionLink(linkElement, parsedUrl, vaultMapping);
+			return;
+		}
+
+		try {
+			const fileContent = await this.getFileFromVault(vaultMapping, parsedUrl.file, parsedUrl.ref);
+			if (fileContent) {
+				const revision = await this.getRevisionLabel(vaultMapping, parsedUrl.ref);
+				this.enhanceObsidianLink(linkElement, parsedUrl, vaultMapping, fileContent, revision);
+			} else {
+				this.addErrorIndicator(linkElement, 'File not found');
+			}
+		} catch (error) {
+			this.addErrorIndicator(linkElement, 'Error loading file');
+		}
+	}
+
+	private enhanceObsidianLink(linkElement: HTMLAnchorElement, parsedUrl: ObsidianUrl, vaultMapping: VaultMapping, fileContent: string, revision: string | null) {
+		// Update link text and style
+		const displayText = this.getDisplayText(parsedUrl);
+		linkElement.textContent = displayText;
+		linkElement.className = 'cross-vault-link';
+		linkElement.title = `Click to open in ${vaultMapping.name} vault`;
+
+		// Add status indicator
+		if (parsedUrl.subpath && extractSubpath(fileContent, parsedUrl.subpath) === null) {
+			this.addMissingSubpathIndicator(linkElement, parsedUrl);
+		} else if (this.localCache.getStatus(vaultMapping, parsedUrl.file, fileContent, parsedUrl.ref) === 'stale') {
+			const statusSpan = document.createElement('span');
+			statusSpan.className = 'cross-vault-status cross-vault-stale';
+			statusSpan.textContent = '⟳';
+			statusSpan.title = STALE_CACHE_MESSAGE;
+			linkElement.appendChild(statusSpan);
+		} else {
+			const statusSpan = document.createElement('span');
+			statusSpan.className = 'cross-vault-status';
+			statusSpan.textContent = '✓';
+			statusSpan.title = `Linked to: ${this.resolveVaultMapping(vaultMapping).path}`;
+			linkElement.appendChild(statusSpan);
+		}
+
+		// Create preview on hover
+		linkElement.addEventListener('mouseenter', () => {
+			this.showPreview(linkElement, vaultMapping, parsedUrl.file, fileContent, parsedUrl.subpath, revision, parsedUrl.ref);
+		});
+
+		// Handle click to open file
+		linkElement.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.openCrossVaultFile(vaultMapping, parsedUrl.file, fileContent, parsedUrl.subpath, parsedUrl.ref);
+		});
+	}
+
+	private enhanceActionLink(linkElement: HTMLAnchorElement, parsedUrl: ObsidianUrl, vaultMapping: VaultMapping) {
+		const indicator = this.getActionIndicator(parsedUrl);
+		linkElement.textContent = this.getDisplayText(parsedUrl);
+		linkElement.className = 'cross-vault-link';
+		linkElement.title = indicator.title;
+
+		const statusSpan = document.createElement('span');
+		statusSpan.className = 'cross-vault-status cross-vault-action';
+		statusSpan.textContent = indicator.text;
+		statusSpan.title = indicator.title;
+		linkElement.appendChild(statusSpan);
+
+		linkElement.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.followActionLink(vaultMapping, parsedUrl);
+		});
+	}
+
+	private addMissingSubpathIndicator(linkElement: HTMLAnchorElement, parsedUrl: ObsidianUrl) {
+		const statusSpan = document.createElement('span');
+		statusSpan.className = 'cross-vault-status cross-vault-warning';
+		statusSpan.textContent = '#';
+		statusSpan.title = this.getMissingSubpathMessage(parsedUrl);
+		linkElement.appendChild(statusSpan);
+	}
+
+	getMissingSubpathMessage(parsedUrl: ObsidianUrl): string {
+		const subpath = parsedUrl.subpath || '';
+		const kind = subpath.startsWith('#^') ? 'Block' : 'Heading';
+		return `${kind} "${subpath.substring(1)}" not found in ${parsedUrl.file}`;
+	}
+
+	private addUnmappedVaultIndicator(linkElement: HTMLAnchorElement, vaultName: string) {
+		const statusSpan = document.createElement('span');
+		statusSpan.className = 'cross-vault-status cross-vault-error';
+		statusSpan.textContent = '?';
+		statusSpan.title = `Vault "${vaultName}" not mapped. Click to map.`;
+		statusSpan.addEventListener('click', () => {
+			this.showVaultMappingDialog({ vault: vaultName, file: '', originalUrl: linkElement.href });
+		});
+		linkElement.appendChild(statusSpan);
+	}
+
+	private addErrorIndicator(linkElement: HTMLAnchorElement, message: string) {
+		const statusSpan = document.createElement('span');
+		statusSpan.className = 'cross-vault-status cross-vault-error';
+		statusSpan.textContent = '✗';
+		statusSpan.title = message;
+		linkElement.appendChild(statusSpan);
+	}
+
+	// Only one preview follows the mouse; pinned previews stay open until they are closed
+	showPreview(element: HTMLElement, vaultMapping: VaultMapping, fileName: string, content: string, subpath?: string, revision?: string | null, ref?: string) {
+		if (this.hoverPreview && !this.hoverPreview.pinned) {
+			if (this.hoverPreview.targetEl === element) {
+				this.hoverPreview.cancelHide();
+				return;
+			}
+			this.removeChild(this.hoverPreview);
+			this.hoverPreview = null;
+		}
+
+		// Narrow the preview to the linked heading or block when it exists
+		let markdown = content;
+		if (subpath) {
+			const section = extractSubpath(content, subpath);
+			if (section !== null) {
+				markdown = section;
+			}
+		}
+
+		const title = `${fileName.replace(/\.md$/, '')}${subpath ? ` > ${subpath.substring(1)}` : ''}`;
+		const preview = new CrossVaultHoverPreview(element, vaultMapping.name, title, revision || null, () => {
+			if (this.hoverPreview === preview) {
+				this.hoverPreview = null;
+			}
+			this.removeChild(preview);
+		});
+		this.hoverPreview = preview;
+		this.addChild(preview);
+
+		this.renderExternalMarkdown(preview.contentEl, vaultMapping, fileName, markdown, preview, undefined, ref).then(() => {
+			if (!preview.pinned) {
+				preview.position();
+			}
+		});
+	}
+
+	// Renders a note from a mapped vault; its links, embeds and images are looked up in that vault, not this one,
+	// and images in a pinned revision are read from that revision
+	async renderExternalMarkdown(el: HTMLElement, vaultMapping: VaultMapping, fileName: string, markdown: string, component: Component, openLink: (vaultFile: VaultFile) => void = (vaultFile) => this.openVaultFile(vaultFile), ref?: string) {
+		await MarkdownRenderer.render(this.app, markdown, el, '', component);
+		const source = this.getVaultSource(vaultMapping);
+		const notePath = (ref && source instanceof GitVaultSource
+			? await source.resolveAtRef(ref, fileName)
+			: this.resolveVaultRelativePath(vaultMapping, fileName)) || fileName;
+
+		el.querySelectorAll('a.internal-link').forEach(link => {
+			this.retargetInternalLink(link as HTMLAnchorElement, vaultMapping, notePath, openLink);
+		});
+		el.querySelectorAll('.internal-embed').forEach(embed => {
+			this.replaceInternalEmbed(embed as HTMLElement, vaultMapping, notePath, component, ref);
+		});
+
+		// Plain markdown images with a relative path point into the source vault too
+		el.querySelectorAll('img').forEach(img => {
+			const src = img.getAttribute('src') || '';
+			if (src && !/^[a-z][\w+.-]*:/i.test(src)) {
+				img.removeAttribute('src');
+				this.loadVaultImage(img, vaultMapping, notePath, src, component, ref);
+			}
+		});
+	}
+
+	private retargetInternalLink(link: HTMLAnchorElement, vaultMapping: VaultMapping, notePath: string, openLink: (vaultFile: VaultFile) => void) {
+		const target = splitSubpath(link.getAttribute('data-href') || link.getAttribute('href') || '');
+		const index = this.getVaultIndex(vaultMapping);
+		// [[#Heading]] points into the note itself
+		const indexed = target.file ? index.resolveLink(target.file, notePath) : index.getFile(notePath);
+		const file = indexed ? indexed.path.replace(/\.md$/, '') : target.file || notePath.replace(/\.md$/, '');
+
+		link.removeAttribute('data-href');
+		link.removeClass('internal-link');
+		link.toggleClass('is-unresolved', index.ready && !indexed);
+		link.href = buildObsidianUrl(vaultMapping.name, file, target.subpath);
+		link.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			openLink({ vault: vaultMapping, path: file, basename: file.split('/').pop() || file, subpath: target.subpath });
+		});
+	}
+
+	private replaceInternalEmbed(embed: HTMLElement, vaultMapping: VaultMapping, notePath: string, component: Component, ref?: string) {
+		const src = embed.getAttribute('src') || '';
+		if (src.indexOf('::') !== -1) return;
+
+		const target = splitSubpath(src);
+		const extension = target.file.indexOf('.') === -1 ? '' : target.file.split('.').pop()!.toLowerCase();
+
+		if (!extension || extension === 'md') {
+			const containerEl = document.createElement('div');
+			embed.replaceWith(containerEl);
+			const indexed = target.file ? this.getVaultIndex(vaultMapping).resolveLink(target.file, notePath) : null;
+			const file = indexed ? indexed.path.replace(/\.md$/, '') : target.file || notePath.replace(/\.md$/, '');
+			component.addChild(new CrossVaultEmbed(containerEl, this, {
+				vault: vaultMapping.name,
+				file,
+				subpath: target.subpath,
+				originalUrl: buildObsidianUrl(vaultMapping.name, file, target.subpath)
+			}));
+			return;
+		}
+
+		if (IMAGE_TYPES[extension]) {
+			const img = document.createElement('img');
+			img.alt = target.file;
+			embed.replaceWith(img);
+			this.loadVaultImage(img, vaultMapping, notePath, target.file, component, ref);
+			return;
+		}
+
+		// Other attachments cannot be shown inline
+		const attachmentEl = document.createElement('span');
+		attachmentEl.className = 'cross-vault-attachment';
+		attachmentEl.textContent = target.file;
+		embed.replaceWith(attachmentEl);
+	}
+
+	private async loadVaultImage(img: HTMLImageElement, vaultMapping: VaultMapping, notePath: string, linkpath: string, component: Component, ref?: string) {
+		const attachment = await this.findVaultAttachment(vaultMapping, notePath, linkpath, ref);
+		if (!attachment) {
+			img.addClass('cross-vault-missing-image');
+			img.alt = `${linkpath} not found in ${vaultMapping.name}`;
+			return;
+		}
+
+		const extension = attachment.path.split('.').pop()!.toLowerCase();
+		const url = URL.createObjectURL(new Blob([attachment.data], { type: IMAGE_TYPES[extension] }));
+		component.register(() => URL.revokeObjectURL(url));
+		img.src = url;
+	}
+
+	// Attachments are looked up where the source vault itself would find them, including its attachment folder
+	async findVaultAttachment(vaultMapping: VaultMapping, notePath: string, linkpath: string, ref?: string): Promise<VaultAttachment | null> {
+		const attachmentFolder = await this.getVaultIndex(vaultMapping).getAttachmentFolder();
+		const source = this.getVaultSource(vaultMapping);
+		for (const candidate of getAttachmentCandidates(attachmentFolder, notePath, linkpath)) {
+			try {
+				const data = ref && source instanceof GitVaultSource ? await source.readBinary(candidate, ref) : await source.readBinary(candidate);
+				return { path: candidate, data };
+			} catch (error) {
+				// Try the next location
+			}
+		}
+		return null;
+	}
+
+	async openCrossVaultFile(vaultMapping: VaultMapping, fileName: string, content: string, subpath?: string, ref?: string) {
+		if (this.settings.openLinksIn === 'viewer') {
+			await this.openInViewer(vaultMapping, fileName, subpath, ref);
+		} else if (this.usesLocalCache(vaultMapping)) {
+			// Save to local cache and open
+			const cachedFile = await this.localCache.cacheFile(vaultMapping, fileName, content, ref);
+			if (cachedFile) {
+				await this.app.workspace.getLeaf().openFile(cachedFile, { eState: subpath ? { subpath } : undefined });
+			}
+		} else {
+			// Open in the target vault using Obsidian URI
+			try {
+				const url = buildObsidianUrl(vaultMapping.name, fileName, subpath);
+				window.open(url);
+				new Notice(`Opening file in ${vaultMapping.name} vault`);
+			} catch (error) {
+				new Notice(`Cannot open file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			}
+		}
+	}
+
+	async openInViewer(vaultMapping: VaultMapping, fileName: string, subpath?: string, ref?: string) {
+		const state: NoteViewState = { vault: vaultMapping.name, file: fileName, subpath, ref };
+		await this.app.workspace.getLeaf().setViewState({ type: NOTE_VIEW_TYPE, active: true, state: state as unknown as Record<string, unknown> });
+	}
+
+	// Search, new and whole-vault links do something other than open a note
+	getActionIndicator(parsedUrl: ObsidianUrl): { text: string, title: string } {
+		switch (parsedUrl.action) {
+			case 'search':
+				return { text: '⌕', title: `Search ${parsedUrl.vault} for "${parsedUrl.query}"` };
+			case 'new':
+				return { text: '+', title: `Create ${parsedUrl.file} in ${parsedUrl.vault}, or open it if it exists` };
+			default:
+				return { text: '↗', title: `Open the ${parsedUrl.vault} vault` };
+		}
+	}
+
+	async followActionLink(vaultMapping: VaultMapping, parsedUrl: ObsidianUrl) {
+		if (parsedUrl.action === 'new') {
+			await this.createNoteFromLink(vaultMapping, parsedUrl);
+		} else if (parsedUrl.action === 'vault' && (!vaultMapping.type || vaultMapping.type === 'local')) {
+			// Obsidian opens vaults in a local folder itself
+			window.open(parsedUrl.originalUrl);
+		} else if (parsedUrl.action === 'search') {
+			await this.openSearchView({ text: parsedUrl.query || '', vault: vaultMapping.name });
+		} else {
+			new VaultFileSuggestModal(this.app, this, (vaultFile) => {
+				if (vaultFile) {
+					this.openVaultFile(vaultFile);
+				}
+			}, { vaultMapping, query: parsedUrl.query || '' }).open();
+		}
+	}
+
+	async openVaultFile(vaultFile: VaultFile) {
+		const fileContent = await this.getFileFromVault(vaultFile.vault, vaultFile.path);
+		if (fileContent) {
+			await this.openCrossVaultFile(vaultFile.vault, vaultFile.path, fileContent, vaultFile.subpath);
+		} else {
+			new Notice(`File not found: ${vaultFile.vault.name}/${vaultFile.path}`);
+		}
+	}
+
+	// Creates the note a new link names, or appends to or overwrites it when the link asks to, then opens it
+	private async createNoteFromLink(vaultMapping: VaultMapping, parsedUrl: ObsidianUrl) {
+		const notePath = toVaultRelativePath(parsedUrl.file);
+		if (!notePath) {
+			new Notice(`Cannot create note: ${parsedUrl.file} is outside the ${vaultMapping.name} vault`);
+			return;
+		}
+
+		const relativePath = notePath.replace(/(\.md)?$/, '.md');
+		const content = parsedUrl.content || '';
+
+		try {
+			const source = this.getVaultSource(vaultMapping);
+			const existing = await source.stat(relativePath);
+			// Any note can carry such a link, so writing to the other vault is confirmed first
+			if (!existing) {
+				const confirmed = await new ConfirmModal(this.app, 'Create Note',
+					`This link creates ${vaultMapping.name}/${relativePath}. Continue?`, 'Create').ask();
+				if (!confirmed) return;
+
+				await source.write(relativePath, content);
+			} else if (parsedUrl.writeMode === 'overwrite' || (parsedUrl.writeMode === 'append' && content)) {
+				const overwrite = parsedUrl.writeMode === 'overwrite';
+				const confirmed = await new ConfirmModal(this.app,
+					overwrite ? 'Overwrite Note' : 'Append to Note',
+					`This link ${overwrite ? 'replaces the content of' : 'adds text to'} ${vaultMapping.name}/${relativePath}. Continue?`,
+					overwrite ? 'Overwrite' : 'Append').ask();
+				if (!confirmed) return;
+
+				if (overwrite) {
+					await source.write(relativePath, content);
+				} else {
+					const current = await source.read(relativePath);
+					await source.write(relativePath, current && !current.endsWith('\n') ? `${current}\n${content}` : current + content);
+				}
+			}
+
+			await this.openCrossVaultFile(vaultMapping, relativePath, await source.read(relativePath));
+		} catch (error) {
+			new Notice(`Cannot create note: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	async getFileFromVault(vaultMapping: VaultMapping, fileName: string, ref?: string): Promise<string | null> {
+		try {
+			// Pinned revisions only apply to git mappings; elsewhere the current note is read
+			const source = this.getVaultSource(vaultMapping);
+			if (ref && source instanceof GitVaultSource) {
+				return await source.readAtRef(ref, fileName);
+			}
+
+			const relativePath = this.resolveVaultRelativePath(vaultMapping, fileName);
+			if (!relativePath) return null;
+
+			return await source.read(relativePath);
+		} catch (error) {
+			console.error('Error reading file from vault:', error);
+			return null;
+		}
+	}
+
+	// Path of a note relative to its vault root, with forward slashes
+	resolveVaultRelativePath(vaultMapping: VaultMapping, fileName: string): string | null {
+		// Prefer the index once it is built, it also resolves bare basenames like Obsidian does
+		const index = this.getVaultIndex(vaultMapping);
+		if (index.ready) {
+			const indexed = index.resolve(fileName);
+			return indexed ? indexed.path : null;
+		}
+
+		return index.source.resolvePath(fileName);
+	}
+
+	// Understands open, search and new URLs, obsidian://vault/<vault>/<path> and Advanced URI links
+	parseObsidianUrl(url: string): ObsidianUrl | null {
+		try {
+			const actionMatch = url.match(/^obsidian:\/\/([\w-]+)\/?([^?#]*)/);
+			if (!actionMatch) return null;
+
+			// searchParams already decodes values, decoding again would break names containing %
+			const params = new URL(url).searchParams;
+			const get = (name: string) => params.get(name) || null;
+			const flag = (name: string) => params.has(name) && params.get(name) !== 'false';
+
+			let vault = get('vault');
+			let file = get('file') || get('filepath');
+
+			// obsidian://vault/My Vault/Folder/Note names the vault and note in the path
+			if (actionMatch[1] === 'vault') {
+				const segments = actionMatch[2].split('/').map(segment => safeDecodeURIComponent(segment));
+				vault = segments[0];
+				file = segments.slice(1).join('/') || null;
+			}
+
+			// An absolute path is mapped back to the vault whose folder contains it
+			const absolutePath = get('path');
+			if (absolutePath) {
+				const located = this.locateVaultPath(absolutePath);
+				if (!located) return null;
+				vault = located.vault;
+				file = located.file;
+			}
+
+			if (!vault) return null;
+			vault = this.resolveVaultName(vault);
+
+			switch (actionMatch[1]) {
+				case 'search':
+					return { vault, file: '', action: 'search', query: get('query') || '', originalUrl: url };
+				case 'new': {
+					const name = file || get('name');
+					if (!name) return null;
+					const writeMode = flag('overwrite') ? 'overwrite' : (flag('append') ? 'append' : undefined);
+					return { vault, file: name, action: 'new', content: get('content') || undefined, writeMode, originalUrl: url };
+				}
+				case 'open':
+				case 'vault':
+				case 'advanced-uri':
+					break;
+				default:
+					return null;
+			}
+
+			if (!file) {
+				return { vault, file: '', action: 'vault', originalUrl: url };
+			}
+
+			// A heading or block anchor travels inside the file parameter as file%23Heading,
+			// Advanced URI links pass it separately
+			const target = splitSubpath(file);
+			if (!target.file) return null;
+			const heading = get('heading');
+			const block = get('block');
+			const subpath = target.subpath || (block ? `#^${block}` : (heading ? `#${heading}` : undefined));
+
+			return {
+				vault,
+				file: target.file,
+				subpath,
+				ref: get('ref') || undefined,
+				originalUrl: url
+			};
+		} catch (error) {
+			return null;
+		}
+	}
+
+	// obsidian:// URLs may name a vault by its registry id, or by a folder mapped under another name
+	resolveVaultName(vault: string): string {
+		if (this.getVaultMapping(vault)) return vault;
+
+		const known = this.knownVaults.find(knownVault => knownVault.id === vault) ||
+			this.knownVaults.find(knownVault => knownVault.name === vault);
+		if (!known) return vault;
+
+		const mapping = this.findMappingForFolder(known.path);
+		return mapping ? mapping.name : known.name;
+	}
+
+	// Finds the mapped or known vault containing an absolute path; paths in this vault are not cross-vault
+	locateVaultPath(absolutePath: string): { vault: string, file: string } | null {
+		const relativeTo = (folder: string) => {
+			const relativePath = path.relative(path.resolve(folder), path.resolve(absolutePath));
+			return relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+				? relativePath.split(path.sep).join('/')
+				: null;
+		};
+
+		const basePath = this.getVaultBasePath();
+		if (basePath && relativeTo(basePath) !== null) return null;
+
+		for (const mapping of this.settings.vaultMappings) {
+			if (mapping.type === 'http' || mapping.type === 'zip') continue;
+			const file = relativeTo(this.resolveVaultMapping(mapping).path);
+			if (file !== null) return { vault: mapping.name, file };
+		}
+
+		for (const known of this.knownVaults) {
+			const file = relativeTo(known.path);
+			if (file !== null) return { vault: known.name, file };
+		}
+		return null;
+	}
+
+	findMappingForFolder(folder: string): VaultMapping | null {
+		return this.settings.vaultMappings.find(mapping =>
+			mapping.type !== 'http' && path.resolve(this.resolveVaultMapping(mapping).path) === path.resolve(folder)) || null;
+	}
+
+	// Parses the inside of a [[Vault::path#Heading|Alias]] link, with or without the brackets
+	parseCompactLink(linktext: string): ObsidianUrl | null {
+		const match = linktext.match(/^!?(?:\[\[)?([^\[\]|#:]+?)::([^\[\]]+?)(?:\]\])?$/);
+		if (!match) return null;
+
+		const aliasIndex = match[2].indexOf('|');
+		const target = splitSubpath(aliasIndex === -1 ? match[2] : match[2].substring(0, aliasIndex));
+		const alias = aliasIndex === -1 ? '' : match[2].substring(aliasIndex + 1).trim();
+		if (!target.file.trim()) return null;
+
+		return {
+			vault: match[1].trim(),
+			file: target.file.trim(),
+			subpath: target.subpath,
+			alias: alias || undefined,
+			originalUrl: linktext
+		};
+	}
+
+	parseCrossVaultLink(link: string): ObsidianUrl | null {
+		return this.isObsidianUrl(link) ? this.parseObsidianUrl(link) : this.parseCompactLink(link);
+	}
+
+	// Collects every URL and compact link in a note together with the line it appears on
+	extractCrossVaultLinks(content: string): IndexedLink[] {
+		const links: IndexedLink[] = [];
+
+		this.matchCrossVaultLinks(content).forEach(({ raw, parsedUrl, line, text }) => {
+			if (parsedUrl.action) return;
+
+			links.push({
+				raw,
+				vault: parsedUrl.vault,
+				file: parsedUrl.file,
+				subpath: parsedUrl.subpath,
+				ref: parsedUrl.ref,
+				line,
+				context: text.trim().substring(0, LINK_CONTEXT_LENGTH)
+			});
+		});
+
+		return links;
+	}
+
+	// Every URL and compact link in a note, including search, new and vault links
+	private matchCrossVaultLinks(content: string): { raw: string, parsedUrl: ObsidianUrl, line: number, text: string }[] {
+		const matches: { raw: string, parsedUrl: ObsidianUrl, line: number, text: string }[] = [];
+
+		getContentLines(content).forEach((line, index) => {
+			if (line.skip) return;
+
+			(line.text.match(URL_REGEX) || []).concat(line.text.match(COMPACT_LINK_REGEX) || []).forEach(raw => {
+				const parsedUrl = this.parseCrossVaultLink(raw);
+				if (parsedUrl) {
+					matches.push({ raw, parsedUrl, line: index, text: line.text });
+				}
+			});
+		});
+
+		return matches;
+	}
+
+	private isObsidianUrl(text: string): boolean {
+		return text.startsWith('obsidian://');
+	}
+
+	// Rewrites every cross-vault link in a line into the compact [[Vault::file]] form
+	private toCompactLinks(line: string): { text: string, count: number } {
+		let count = 0;
+		const markdownLinks = line.replace(MARKDOWN_URL_LINK_REGEX, (match, embed: string, text: string, url: string) => {
+			const parsedUrl = this.parseObsidianUrl(url);
+			if (!parsedUrl || !this.canUseCompactLink(parsedUrl)) return match;
+
+			count++;
+			const alias = text && text !== parsedUrl.file && text !== parsedUrl.file.split('/').pop() ? text : undefined;
+			return buildCompactLink(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath, embed ? undefined : alias, !!embed);
+		});
+
+		// Bare URLs are everything left over after markdown links have been converted
+		const text = markdownLinks.replace(URL_REGEX, (match) => {
+			const parsedUrl = this.parseObsidianUrl(match);
+			if (!parsedUrl || !this.canUseCompactLink(parsedUrl)) return match;
+
+			count++;
+			return buildCompactLink(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath);
+		});
+
+		return { text, count };
+	}
+
+	// Rewrites every [[Vault::file]] link in a line into a markdown link with an obsidian:// URL
+	private toUrlLinks(line: string): { text: string, count: number } {
+		let count = 0;
+		const text = line.replace(COMPACT_LINK_REGEX, (match) => {
+			const parsedUrl = this.parseCompactLink(match);
+			if (!parsedUrl) return match;
+
+			count++;
+			const url = buildObsidianUrl(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath);
+			if (match.startsWith('!')) {
+				return `![](${url})`;
+			}
+			const label = parsedUrl.alias || parsedUrl.file.split('/').pop() || parsedUrl.file;
+			return `[${label}](${url})`;
+		});
+
+		return { text, count };
+	}
+
+	// Characters that end a wikilink early, and pinned revisions, cannot be expressed in the compact form
+	private canUseCompactLink(parsedUrl: ObsidianUrl): boolean {
+		return !parsedUrl.ref && !parsedUrl.action && !/[[\]|#:]/.test(parsedUrl.vault) && !/[[\]|]/.test(parsedUrl.file + (parsedUrl.subpath || ''));
+	}
+
+	convertLinksInEditor(editor: Editor, toCompact: boolean) {
+		const changes: EditorChange[] = [];
+		let count = 0;
+
+		getContentLines(editor.getValue()).forEach((line, index) => {
+			if (line.skip) return;
+
+			const converted = toCompact ? this.toCompactLinks(line.text) : this.toUrlLinks(line.text);
+			if (converted.count > 0) {
+				count += converted.count;
+				changes.push({
+					from: { line: index, ch: 0 },
+					to: { line: index, ch: line.text.length },
+					text: converted.text
+				});
+			}
+		});
+
+		if (changes.length > 0) {
+			editor.transaction({ changes });
+		}
+		new Notice(count > 0 ? `Converted ${count} cross-vault link${count === 1 ? '' : 's'}` : 'No cross-vault links to convert');
+	}
+
+	getDisplayText(parsedUrl: ObsidianUrl): string {
+		if (parsedUrl.alias) {
+			return parsedUrl.alias;
+		}
+
+		if (parsedUrl.action === 'vault') return parsedUrl.vault;
+		if (parsedUrl.action === 'search') return `${parsedUrl.vault}: search "${parsedUrl.query}"`;
+
+		const refText = parsedUrl.ref ? ` @ ${parsedUrl.ref}` : '';
+		const newText = parsedUrl.action === 'new' ? ' (new)' : '';
+		return `${this.formatDisplayText(parsedUrl.vault, parsedUrl.file, parsedUrl.subpath)}${refText}${newText}`;
+	}
+
+	// Fills in the mapping's display template, or the global one, from the indexed note when there is one
+	formatDisplayText(vaultName: string, file: string, subpath?: string): string {
+		const vaultMapping = this.getVaultMapping(vaultName);
+		const decodedFile = safeDecodeURIComponent(file.replace(/\.md$/, ''));
+		const indexed = vaultMapping ? this.getVaultIndex(vaultMapping).resolve(decodedFile) : null;
+		const notePath = indexed ? indexed.path.replace(/\.md$/, '') : decodedFile;
+		const basename = notePath.split('/').pop() || notePath;
+
+		const template = (vaultMapping && vaultMapping.displayTemplate) || this.settings.displayTemplate || DEFAULT_SETTINGS.displayTemplate;
+		return applyDisplayTemplate(template, {
+			vault: vaultMapping ? vaultMapping.name : vaultName,
+			title: indexed ? getNoteTitle(indexed) : basename,
+			basename,
+			heading: subpath ? subpath.substring(1) : '',
+			folder: notePath.indexOf('/') === -1 ? '' : notePath.substring(0, notePath.lastIndexOf('/'))
+		});
+	}
+
+	// An exact name wins, then names and aliases are matched ignoring case
+	getVaultMapping(vaultName: string): VaultMapping | null {
+		const lowerName = vaultName.toLowerCase();
+		return this.settings.vaultMappings.find(mapping => mapping.name === vaultName) ||
+			this.settings.vaultMappings.find(mapping => mapping.name.toLowerCase() === lowerName ||
+				(mapping.aliases || []).some(alias => alias.toLowerCase() === lowerName)) ||
+			null;
+	}
+
+	// Another mapping that already answers to the name, as its name or one of its aliases
+	findNameClash(vaultMapping: VaultMapping | null, name: string): VaultMapping | null {
+		const lowerName = name.toLowerCase();
+		return this.settings.vaultMappings.find(other => other !== vaultMapping &&
+			(other.name.toLowerCase() === lowerName || (other.aliases || []).some(alias => alias.toLowerCase() === lowerName))) || null;
+	}
+
+	// Keeps the old name as an alias, so existing links resolve until they are rewritten
+	async renameVaultMapping(vaultMapping: VaultMapping, name: string) {
+		const clash = this.findNameClash(vaultMapping, name);
+		if (clash) {
+			throw new Error(`${name} is already used by the ${clash.name} mapping`);
+		}
+
+		const previous = vaultMapping.name;
+		const aliases = (vaultMapping.aliases || []).filter(alias => alias.toLowerCase() !== name.toLowerCase());
+		if (previous && previous.toLowerCase() !== name.toLowerCase() && !aliases.some(alias => alias.toLowerCase() === previous.toLowerCase())) {
+			aliases.push(previous);
+		}
+
+		vaultMapping.name = name;
+		vaultMapping.aliases = aliases.length > 0 ? aliases : undefined;
+		await this.localCache.renameVault(previous, name);
+		await this.saveSettings();
+	}
+
+	async showVaultMappingDialog(parsedUrl: ObsidianUrl) {
+		const modal = new VaultMappingModal(this.app, this, parsedUrl);
+		modal.open();
+	}
+
+	private editorLivePreviewExtension() {
+		return ViewPlugin.fromClass(class {
+			decorations: DecorationSet;
+			plugin: CrossVaultPlugin;
+
+			constructor(view: EditorView) {
+				this.plugin = (window as any).app.plugins.plugins['obsidian-cross-vault'] as CrossVaultPlugin;
+				this.decorations = this.buildDecorations(view);
+			}
+
+			update(update: ViewUpdate) {
+				if (update.docChanged || update.viewportChanged || update.selectionSet) {
+					this.decorations = this.buildDecorations(update.view);
+				}
+			}
+
+			buildDecorations(view: EditorView) {
+				const widgets = [];
+				const content = view.state.doc.toString();
+				const handledRanges: { from: number, to: number }[] = [];
+				const isLivePreview = view.state.field(editorLivePreviewField, false);
+				const isEditing = (from: number, to: number) => view.state.selection.ranges.some(range => range.to >= from && range.from <= to);
+				const isHandled = (from: number, to: number) => handledRanges.some(range => from >= range.from && to <= range.to);
+
+				// Render embeds in place unless the cursor is inside them
+				const embedRegexes = [new RegExp(MARKDOWN_URL_LINK_REGEX.source, 'g'), new RegExp(COMPACT_LINK_REGEX.source, 'g')];
+				for (const embedRegex of embedRegexes) {
+					let match;
+					while (isLivePreview && (match = embedRegex.exec(content)) !== null) {
+						if (match[1] !== '!') continue;
+
+						const parsedUrl = this.plugin.parseCrossVaultLink(match[0].startsWith('![[') ? match[0] : match[3]);
+						if (!parsedUrl || parsedUrl.action) continue;
+
+						const from = match.index;
+						const to = from + match[0].length;
+						if (isEditing(from, to)) continue;
+
+						handledRanges.push({ from, to });
+						widgets.push(Decoration.replace({
+							widget: new CrossVaultEmbedWidget(this.plugin, parsedUrl),
+						}).range(from, to));
+					}
+				}
+
+				const linkRegexes = [new RegExp(URL_REGEX.source, 'g'), new RegExp(COMPACT_LINK_REGEX.source, 'g')];
+				for (const linkRegex of linkRegexes) {
+					let match;
+					while ((match = linkRegex.exec(content)) !== null) {
+						const isCompact = match[0].startsWith('[[') || match[0].startsWith('![[');
+						const parsedUrl = this.plugin.parseCrossVaultLink(match[0]);
+						if (!parsedUrl) continue;
+
+						const vaultMapping = this.plugin.getVaultMapping(parsedUrl.vault);
+						const from = match.index;
+						const to = from + match[0].length;
+						if (isHandled(from, to)) continue;
+
+						// Compact links stay editable as text while the cursor is on them
+						if (isCompact && isEditing(from, to)) continue;
+
+						// Add the link styling and replace text
+						const displayText = this.plugin.getDisplayText(parsedUrl);
+						widgets.push(Decoration.replace({
+							widget: new CrossVaultDisplayWidget(displayText, this.plugin, parsedUrl, vaultMapping),
+						}).range(from, to));
+
+						// Add the status widget
+						widgets.push(Decoration.widget({
+							widget: new CrossVaultLinkWidget(this.plugin, parsedUrl, vaultMapping),
+							side: 1
+						}).range(to));
+					}
+				}
+
+				return Decoration.set(widgets, true);
+			}
+		}, {
+			decorations: (v: any) => v.decorations
+		});
+	}
+
+	private refreshCurrentNote() {
 		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (activeView) {
 			if (activeView.previewMode) {
 				activeView.previewMode.rerender(true);
 			}
-			new Notice('Cross-vault links refreshed');
+			new Notice('Cross-vault links refreshed');
+		}
+	}
+
+	addVaultMapping(mapping: VaultMapping) {
+		// Remove existing mapping with same name
+		this.settings.vaultMappings = this.settings.vaultMappings.filter(m => m.name !== mapping.name);
+		this.settings.vaultMappings.push(mapping);
+		this.saveSettings();
+	}
+
+	removeVaultMapping(name: string) {
+		this.settings.vaultMappings = this.settings.vaultMappings.filter(m => m.name !== name);
+		this.saveSettings();
+	}
+
+	formatVaultFileLink(vaultFile: VaultFile, mode: LinkInsertMode, alias?: string): string {
+		const url = buildObsidianUrl(vaultFile.vault.name, vaultFile.path, vaultFile.subpath);
+		if (mode === 'url') {
+			return url;
+		}
+		if (mode === 'embed') {
+			return `![](${url})`;
+		}
+
+		const label = alias || this.formatDisplayText(vaultFile.vault.name, vaultFile.path, vaultFile.subpath);
+		return `[${label}](${url})`;
+	}
+}
+
+const INDEX_VERSION = 5;
+const INDEX_BATCH_SIZE = 50;
+const INDEX_POLL_INTERVAL = 60 * 1000;
+const CONTENT_CACHE_SIZE = 100;
+// The attachment folder setting is read again after this long, so a changed app.json is picked up
+const ATTACHMENT_FOLDER_TTL = 30 * 1000;
+
+const HTTP_POLL_INTERVAL = 5 * 60 * 1000;
+const PLAINTEXT_PASSWORD_WARNING = 'Stored unencrypted in the plugin\'s data.json together with the other settings';
+
+function getDeviceName(): string {
+	return os.hostname();
+}
+
+// Applies this device's override, expands ~ and $VAR, ${VAR} or %VAR%, and resolves relative paths against basePath
+function resolveMappingPath(vaultMapping: VaultMapping, basePath: string): string {
+	const overrides = vaultMapping.pathOverrides || {};
+	const configured = overrides[getDeviceName()] || vaultMapping.path;
+	if (vaultMapping.type === 'http') return configured;
+
+	// Unset variables are left as written so the resulting error names them
+	const expanded = configured
+		.replace(/^~(?=$|[\\/])/, os.homedir())
+		.replace(/\$\{(\w+)\}|\$(\w+)|%(\w+)%/g, (match, braced, plain, windows) => {
+			const value = process.env[braced || plain || windows];
+			return value !== undefined ? value : match;
+		});
+	return basePath && expanded ? path.resolve(basePath, expanded) : expanded;
+}
+
+function createVaultSource(plugin: CrossVaultPlugin, mapping: VaultMapping): VaultSource {
+	const vaultMapping = plugin.resolveVaultMapping(mapping);
+	if (vaultMapping.type === 'http') return new HttpVaultSource(plugin, vaultMapping);
+	if (vaultMapping.type === 'git') return new GitVaultSource(vaultMapping);
+	if (vaultMapping.type === 'zip') return new ZipVaultSource(vaultMapping.path);
+	return new LocalVaultSource(vaultMapping.path);
+}
+
+// Identifies where a resolved mapping's notes live; a different location means a fresh index
+function getVaultSourceRoot(vaultMapping: VaultMapping): string {
+	if (vaultMapping.type === 'http') return vaultMapping.path.replace(/\/*$/, '/');
+	if (vaultMapping.type === 'git') return `${vaultMapping.path}@${vaultMapping.ref || 'HEAD'}`;
+	return vaultMapping.path;
+}
+
+// Resolves a link target the way obsidian:// URLs do: exact path first, then the shortest path ending in it
+function findNotePath(paths: string[], fileName: string): string | null {
+	const target = fileName.replace(/\\/g, '/').replace(/^\/+/, '');
+	if (paths.indexOf(`${target}.md`) !== -1) return `${target}.md`;
+	if (paths.indexOf(target) !== -1) return target;
+
+	const lowerTarget = target.toLowerCase().replace(/\.md$/, '');
+	let basenameMatch: string | null = null;
+	for (const relativePath of paths) {
+		const lowerPath = relativePath.toLowerCase().replace(/\.md$/, '');
+		if (lowerPath === lowerTarget) return relativePath;
+		if ((!basenameMatch || relativePath.length < basenameMatch.length) && lowerPath.endsWith(`/${lowerTarget}`)) {
+			basenameMatch = relativePath;
+		}
+	}
+	return basenameMatch;
+}
+
+// Resolves a wikilink written in a note of the source vault: next to that note first, then like findNotePath
+function findLinkedNotePath(paths: string[], linkpath: string, sourcePath: string): string | null {
+	const target = linkpath.replace(/\\/g, '/');
+	const folder = sourcePath.indexOf('/') === -1 ? '' : sourcePath.substring(0, sourcePath.lastIndexOf('/'));
+	const relative = path.posix.normalize(path.posix.join(folder, target));
+	if (!relative.startsWith('..')) {
+		if (paths.indexOf(`${relative}.md`) !== -1) return `${relative}.md`;
+		if (paths.indexOf(relative) !== -1) return relative;
+	}
+	return target.startsWith('./') || target.startsWith('../') ? null : findNotePath(paths, target);
+}
+
+// Where Obsidian looks for an embedded attachment: next to the note, in the "Default location for new attachments", then from the root
+function getAttachmentCandidates(attachmentFolder: string, notePath: string, linkpath: string): string[] {
+	const target = safeDecodeURIComponent(linkpath).replace(/\\/g, '/').replace(/^\/+/, '');
+	const folder = notePath.indexOf('/') === -1 ? '' : notePath.substring(0, notePath.lastIndexOf('/'));
+	const configured = attachmentFolder.startsWith('./')
+		? path.posix.join(folder, attachmentFolder.substring(2), target)
+		: path.posix.join(attachmentFolder.replace(/^\/+/, ''), target);
+
+	return [path.posix.join(folder, target), configured, path.posix.normalize(target)]
+		.filter((candidate, index, all) => all.indexOf(candidate) === index && !candidate.startsWith('..'));
+}
+
+function toArrayBuffer(data: Buffer): ArrayBuffer {
+	return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+class LocalVaultSource implements VaultSource {
+	readonly root: string;
+	readonly pollInterval = INDEX_POLL_INTERVAL;
+	private watcher: fs.FSWatcher | null = null;
+	private contentCache = new Map<string, { mtime: number, content: string }>();
+
+	constructor(root: string) {
+		this.root = root;
+	}
+
+	async list(relativeDir: string): Promise<VaultSourceEntry[]> {
+		const files: VaultSourceEntry[] = [];
+		const entries = await fs.promises.readdir(path.join(this.root, relativeDir), { withFileTypes: true });
+
+		for (const entry of entries) {
+			// Skip .obsidian, .trash and other hidden folders
+			if (entry.name.startsWith('.')) continue;
+
+			const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				files.push(...await this.list(relativePath));
+			} else if (entry.name.endsWith('.md')) {
+				const stats = await this.stat(relativePath);
+				if (stats) files.push(stats);
+			}
+		}
+
+		return files;
+	}
+
+	async stat(relativePath: string): Promise<VaultSourceEntry | null> {
+		try {
+			const stats = await fs.promises.stat(path.join(this.root, relativePath));
+			return { path: relativePath, mtime: stats.mtimeMs, size: stats.size, directory: stats.isDirectory() };
+		} catch (error) {
+			return null;
+		}
+	}
+
+	// Recently read notes are served from memory until their mtime changes
+	async read(relativePath: string): Promise<string> {
+		const filePath = path.join(this.root, relativePath);
+		const stats = await fs.promises.stat(filePath);
+		const cached = this.contentCache.get(relativePath);
+		if (cached && cached.mtime === stats.mtimeMs) {
+			return cached.content;
+		}
+
+		const content = await fs.promises.readFile(filePath, 'utf8');
+		this.contentCache.delete(relativePath);
+		this.contentCache.set(relativePath, { mtime: stats.mtimeMs, content });
+		if (this.contentCache.size > CONTENT_CACHE_SIZE) {
+			this.contentCache.delete(this.contentCache.keys().next().value as string);
+		}
+		return content;
+	}
+
+	async readBinary(relativePath: string): Promise<ArrayBuffer> {
+		return toArrayBuffer(await fs.promises.readFile(path.join(this.root, relativePath)));
+	}
+
+	async write(relativePath: string, content: string) {
+		const filePath = path.join(this.root, relativePath);
+		await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.promises.writeFile(filePath, content, 'utf8');
+	}
+
+	resolvePath(fileName: string): string | null {
+		if (fs.existsSync(path.join(this.root, fileName + '.md'))) {
+			return `${fileName}.md`;
+		}
+
+		// Try without .md extension
+		const filePathWithoutExt = path.join(this.root, fileName);
+		if (fs.existsSync(filePathWithoutExt) && fs.statSync(filePathWithoutExt).isFile()) {
+			return fileName;
+		}
+
+		return null;
+	}
+
+	watch(onChange: (relativePath: string) => void, onError: () => void): boolean {
+		try {
+			this.watcher = fs.watch(this.root, { recursive: true }, (event, filename) => {
+				if (filename) {
+					onChange(filename.toString().replace(/\\/g, '/'));
+				}
+			});
+			this.watcher.on('error', () => {
+				this.close();
+				onError();
+			});
+			return true;
+		} catch (error) {
+			// Recursive watching is not available on every platform
+			return false;
+		}
+	}
+
+	close() {
+		if (this.watcher) {
+			this.watcher.close();
+			this.watcher = null;
+		}
+	}
+}
+
+interface HttpCachedResponse {
+	etag?: string;
+	lastModified?: string;
+	content: string;
+}
+
+// Reads a vault published over WebDAV, or as plain directory listings on a static HTTP server
+class HttpVaultSource implements VaultSource {
+	readonly root: string;
+	readonly pollInterval = HTTP_POLL_INTERVAL;
+	private plugin: CrossVaultPlugin;
+	private vaultMapping: VaultMapping;
+	private responses = new Map<string, HttpCachedResponse>();
+	private loadPromise: Promise<void> | null = null;
+	private saveTimer: number | null = null;
+
+	constructor(plugin: CrossVaultPlugin, vaultMapping: VaultMapping) {
+		this.plugin = plugin;
+		this.vaultMapping = vaultMapping;
+		this.root = getVaultSourceRoot(vaultMapping);
+	}
+
+	private getUrl(relativePath: string): string {
+		return this.root + relativePath.split('/').map(part => encodeURIComponent(part)).join('/');
+	}
+
+	private async request(relativePath: string, method: string, headers: Record<string, string> = {}, body?: string): Promise<RequestUrlResponse> {
+		if (this.vaultMapping.username) {
+			const credentials = Buffer.from(`${this.vaultMapping.username}:${this.vaultMapping.password || ''}`, 'utf8').toString('base64');
+			headers['Authorization'] = `Basic ${credentials}`;
+		}
+		return await requestUrl({ url: this.getUrl(relativePath), method, headers, body, throw: false });
+	}
+
+	async list(relativeDir: string): Promise<VaultSourceEntry[]> {
+		const dir = relativeDir ? `${relativeDir}/` : '';
+		const response = await this.request(dir, 'PROPFIND', { 'Depth': '1', 'Content-Type': 'application/xml' },
+			'<?xml version="1.0"?><propfind xmlns="DAV:"><prop><resourcetype/><getlastmodified/><getcontentlength/></prop></propfind>');
+
+		if (response.status === 207) {
+			return await this.listWebDav(dir, response.text);
+		}
+		return await this.listDirectoryPage(dir);
+	}
+
+	private async listWebDav(dir: string, xml: string): Promise<VaultSourceEntry[]> {
+		const files: VaultSourceEntry[] = [];
+		const doc = new DOMParser().parseFromString(xml, 'application/xml');
+		const responses = Array.from(doc.getElementsByTagNameNS('DAV:', 'response'));
+
+		for (const response of responses) {
+			const relativePath = this.getRelativePath(this.getDavText(response, 'href'), this.getUrl(dir));
+			if (!relativePath || relativePath.split('/').some(part => part.startsWith('.'))) continue;
+
+			if (response.getElementsByTagNameNS('DAV:', 'collection').length > 0) {
+				files.push(...await this.list(relativePath));
+			} else if (relativePath.endsWith('.md')) {
+				const lastModified = Date.parse(this.getDavText(response, 'getlastmodified'));
+				files.push({
+					path: relativePath,
+					mtime: isNaN(lastModified) ? 0 : lastModified,
+					size: parseInt(this.getDavText(response, 'getcontentlength'), 10) || 0,
+					directory: false
+				});
+			}
+		}
+
+		return files;
+	}
+
+	private getDavText(element: Element, name: string): string {
+		const child = element.getElementsByTagNameNS('DAV:', name)[0];
+		return child && child.textContent ? child.textContent.trim() : '';
+	}
+
+	// Servers without WebDAV can still expose an auto-generated index page for each folder
+	private async listDirectoryPage(dir: string): Promise<VaultSourceEntry[]> {
+		const response = await this.request(dir, 'GET');
+		if (response.status >= 400) {
+			throw new Error(`Cannot list ${this.getUrl(dir)} (HTTP ${response.status})`);
+		}
+
+		const files: VaultSourceEntry[] = [];
+		const seen = new Set<string>();
+		const doc = new DOMParser().parseFromString(response.text, 'text/html');
+
+		for (const anchor of Array.from(doc.querySelectorAll('a[href]'))) {
+			const relativePath = this.getRelativePath(anchor.getAttribute('href') || '', this.getUrl(dir));
+			if (!relativePath || seen.has(relativePath) || relativePath.split('/').some(part => part.startsWith('.'))) continue;
+			seen.add(relativePath);
+
+			if (/\/$/.test(anchor.getAttribute('href') || '')) {
+				files.push(...await this.listDirectoryPage(`${relativePath}/`));
+			} else if (relativePath.endsWith('.md')) {
+				// No modification time is known, so the note is revalidated on every scan
+				files.push({ path: relativePath, mtime: 0, size: 0, directory: false });
+			}
+		}
+
+		return files;
+	}
+
+	// Only direct children of the listed folder count; parent links and other sites are ignored
+	private getRelativePath(href: string, dirUrl: string): string | null {
+		let url: string;
+		try {
+			// Servers differ in which characters they escape, so compare decoded URLs
+			url = safeDecodeURIComponent(new URL(href, dirUrl).href.split(/[?#]/)[0]);
+		} catch (error) {
+			return null;
+		}
+
+		const base = safeDecodeURIComponent(dirUrl);
+		if (!url.startsWith(base) || url === base) return null;
+
+		const name = url.substring(base.length).replace(/\/$/, '');
+		if (!name || name.indexOf('/') !== -1) return null;
+		return url.substring(safeDecodeURIComponent(this.root).length).replace(/\/$/, '');
+	}
+
+	async stat(relativePath: string): Promise<VaultSourceEntry | null> {
+		const response = await this.request(relativePath, 'HEAD');
+		if (response.status >= 400) return null;
+
+		const lastModified = Date.parse(this.getHeader(response, 'last-modified') || '');
+		return {
+			path: relativePath,
+			mtime: isNaN(lastModified) ? 0 : lastModified,
+			size: parseInt(this.getHeader(response, 'content-length') || '', 10) || 0,
+			directory: relativePath === '' || relativePath.endsWith('/')
+		};
+	}
+
+	// Conditional requests let the server answer 304 for notes that have not changed
+	async read(relativePath: string): Promise<string> {
+		await this.load();
+		const cached = this.responses.get(relativePath);
+		const headers: Record<string, string> = {};
+		if (cached && cached.etag) headers['If-None-Match'] = cached.etag;
+		if (cached && cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+		const response = await this.request(relativePath, 'GET', headers);
+		if (response.status === 304 && cached) {
+			return cached.content;
+		}
+		if (response.status >= 400) {
+			throw new Error(`Cannot read ${this.getUrl(relativePath)} (HTTP ${response.status})`);
+		}
+
+		this.responses.set(relativePath, {
+			etag: this.getHeader(response, 'etag') || undefined,
+			lastModified: this.getHeader(response, 'last-modified') || undefined,
+			content: response.text
+		});
+		this.scheduleSave();
+		return response.text;
+	}
+
+	async readBinary(relativePath: string): Promise<ArrayBuffer> {
+		const response = await this.request(relativePath, 'GET');
+		if (response.status >= 400) {
+			throw new Error(`Cannot read ${this.getUrl(relativePath)} (HTTP ${response.status})`);
+		}
+		return response.arrayBuffer;
+	}
+
+	// WebDAV servers accept PUT; If-Match stops us from overwriting a newer version
+	async write(relativePath: string, content: string) {
+		await this.load();
+		const cached = this.responses.get(relativePath);
+		const headers: Record<string, string> = { 'Content-Type': 'text/markdown; charset=utf-8' };
+		if (cached && cached.etag) headers['If-Match'] = cached.etag;
+
+		const response = await this.request(relativePath, 'PUT', headers, content);
+		if (response.status === 412) {
+			throw new Error(`${relativePath} was changed on the server`);
+		}
+		if (response.status >= 400) {
+			throw new Error(`Cannot write ${this.getUrl(relativePath)} (HTTP ${response.status})`);
+		}
+
+		this.responses.set(relativePath, {
+			etag: this.getHeader(response, 'etag') || undefined,
+			lastModified: this.getHeader(response, 'last-modified') || undefined,
+			content
+		});
+		this.scheduleSave();
+	}
+
+	resolvePath(fileName: string): string | null {
+		return fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+	}
+
+	watch(): boolean {
+		return false;
+	}
+
+	close() {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			this.save();
+		}
+	}
+
+	private getHeader(response: RequestUrlResponse, name: string): string | null {
+		const key = Object.keys(response.headers).find(header => header.toLowerCase() === name);
+		return key ? response.headers[key] : null;
+	}
+
+	private getStoragePath(): string {
+		return this.plugin.getStoragePath(`http-cache/${encodeURIComponent(this.vaultMapping.name)}.json`);
+	}
+
+	private load(): Promise<void> {
+		if (!this.loadPromise) {
+			this.loadPromise = (async () => {
+				try {
+					const adapter = this.plugin.app.vault.adapter;
+					const storagePath = this.getStoragePath();
+					if (!(await adapter.exists(storagePath))) return;
+
+					const persisted = JSON.parse(await adapter.read(storagePath)) as { root: string, responses: Record<string, HttpCachedResponse> };
+					if (persisted.root !== this.root) return;
+					Object.keys(persisted.responses).forEach(key => this.responses.set(key, persisted.responses[key]));
+				} catch (error) {
+					console.error('Error loading HTTP cache:', error);
+				}
+			})();
+		}
+		return this.loadPromise;
+	}
+
+	private async save() {
+		this.saveTimer = null;
+		try {
+			const adapter = this.plugin.app.vault.adapter;
+			const storagePath = this.getStoragePath();
+			const folder = storagePath.substring(0, storagePath.lastIndexOf('/'));
+			if (!(await adapter.exists(folder))) {
+				await adapter.mkdir(folder);
+			}
+
+			const responses: Record<string, HttpCachedResponse> = {};
+			this.responses.forEach((response, key) => responses[key] = response);
+			await adapter.write(storagePath, JSON.stringify({ root: this.root, responses }));
+		} catch (error) {
+			console.error('Error saving HTTP cache:', error);
+		}
+	}
+
+	private scheduleSave() {
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = window.setTimeout(() => this.save(), 5000);
+	}
+}
+
+const GIT_TREE_CACHE_SIZE = 10;
+// Branches move, so a resolved commit is only reused within one scan
+const GIT_COMMIT_TTL = 5 * 1000;
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+	return new Promise((resolve, reject) => {
+		childProcess.execFile('git', args, { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) {
+				reject(new Error(stderr.trim() || error.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+function runGitBinary(cwd: string, args: string[]): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		childProcess.execFile('git', args, { cwd, encoding: 'buffer', maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) {
+				reject(new Error(stderr.toString().trim() || error.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+interface GitCommit {
+	sha: string;
+	// Commit time in ms, used as the modification time of every note in it
+	time: number;
+}
+
+// Reads notes from a revision of a git repository instead of its working tree
+class GitVaultSource implements VaultSource {
+	readonly root: string;
+	readonly pollInterval = INDEX_POLL_INTERVAL;
+	private repoPath: string;
+	private ref: string;
+	private trees = new Map<string, VaultSourceEntry[]>();
+	private contentCache = new Map<string, string>();
+	private commits = new Map<string, { commit: Promise<GitCommit>, resolvedAt: number }>();
+
+	constructor(vaultMapping: VaultMapping) {
+		this.repoPath = vaultMapping.path;
+		this.ref = vaultMapping.ref || 'HEAD';
+		this.root = getVaultSourceRoot(vaultMapping);
+	}
+
+	resolveCommit(ref: string = this.ref): Promise<GitCommit> {
+		const cached = this.commits.get(ref);
+		if (cached && Date.now() - cached.resolvedAt < GIT_COMMIT_TTL) return cached.commit;
+
+		// Refs come from links, so one such as --output=file must never reach git as an option
+		if (ref.startsWith('-')) {
+			return Promise.reject(new Error(`Invalid git revision: ${ref}`));
+		}
+
+		const commit = runGit(this.repoPath, ['log', '-1', '--format=%H %ct', '--end-of-options', ref, '--']).then(output => {
+			const [sha, time] = output.trim().split(' ');
+			return { sha, time: parseInt(time, 10) * 1000 };
+		});
+		const entry = { commit, resolvedAt: Date.now() };
+		commit.catch(() => {
+			if (this.commits.get(ref) === entry) this.commits.delete(ref);
+		});
+
+		this.commits.delete(ref);
+		this.commits.set(ref, entry);
+		if (this.commits.size > GIT_TREE_CACHE_SIZE) {
+			this.commits.delete(this.commits.keys().next().value as string);
+		}
+		return commit;
+	}
+
+	// A commit's tree never changes, so listings are kept per commit
+	private async listCommit(commit: GitCommit): Promise<VaultSourceEntry[]> {
+		const cached = this.trees.get(commit.sha);
+		if (cached) return cached;
+
+		// Paths are relative to the vault folder, which may be a subfolder of the repository
+		const output = await runGit(this.repoPath, ['ls-tree', '-r', '-z', '--long', commit.sha]);
+		const entries: VaultSourceEntry[] = [];
+		output.split('\0').forEach(line => {
+			const tab = line.indexOf('\t');
+			if (tab === -1) return;
+
+			const [, type, object, size] = line.substring(0, tab).split(/\s+/);
+			const relativePath = line.substring(tab + 1);
+			if (type !== 'blob' || !relativePath.endsWith('.md') || relativePath.split('/').some(part => part.startsWith('.'))) return;
+
+			entries.push({ path: relativePath, mtime: commit.time, size: parseInt(size, 10) || 0, directory: false, version: object });
+		});
+
+		this.trees.set(commit.sha, entries);
+		if (this.trees.size > GIT_TREE_CACHE_SIZE) {
+			this.trees.delete(this.trees.keys().next().value as string);
+		}
+		return entries;
+	}
+
+	async list(relativeDir: string): Promise<VaultSourceEntry[]> {
+		const entries = await this.listCommit(await this.resolveCommit());
+		return relativeDir ? entries.filter(entry => entry.path.startsWith(`${relativeDir}/`)) : entries;
+	}
+
+	async stat(relativePath: string): Promise<VaultSourceEntry | null> {
+		const commit = await this.resolveCommit();
+		const entries = await this.listCommit(commit);
+		const file = entries.find(entry => entry.path === relativePath);
+		if (file) return file;
+
+		return entries.some(entry => entry.path.startsWith(`${relativePath}/`))
+			? { path: relativePath, mtime: commit.time, size: 0, directory: true }
+			: null;
+	}
+
+	async read(relativePath: string): Promise<string> {
+		return await this.readBlob(await this.resolveCommit(), relativePath);
+	}
+
+	private async readBlob(commit: GitCommit, relativePath: string): Promise<string> {
+		const key = `${commit.sha}:${relativePath}`;
+		const cached = this.contentCache.get(key);
+		if (cached !== undefined) return cached;
+
+		const content = await runGit(this.repoPath, ['cat-file', 'blob', `${commit.sha}:./${relativePath}`]);
+		this.contentCache.set(key, content);
+		if (this.contentCache.size > CONTENT_CACHE_SIZE) {
+			this.contentCache.delete(this.contentCache.keys().next().value as string);
+		}
+		return content;
+	}
+
+	async readBinary(relativePath: string, ref?: string): Promise<ArrayBuffer> {
+		const commit = await this.resolveCommit(ref);
+		return toArrayBuffer(await runGitBinary(this.repoPath, ['cat-file', 'blob', `${commit.sha}:./${relativePath}`]));
+	}
+
+	// Links pinned with &ref= are resolved against the tree of that revision
+	async resolveAtRef(ref: string, fileName: string): Promise<string | null> {
+		const entries = await this.listCommit(await this.resolveCommit(ref));
+		return findNotePath(entries.map(entry => entry.path), fileName);
+	}
+
+	async readAtRef(ref: string, fileName: string): Promise<string | null> {
+		const commit = await this.resolveCommit(ref);
+		const relativePath = findNotePath((await this.listCommit(commit)).map(entry => entry.path), fileName);
+		return relativePath ? await this.readBlob(commit, relativePath) : null;
+	}
+
+	async describe(ref: string = this.ref): Promise<string> {
+		const commit = await this.resolveCommit(ref);
+		return `${ref} (${commit.sha.substring(0, 7)})`;
+	}
+
+	async write(): Promise<void> {
+		throw new Error('Git mappings are read-only');
+	}
+
+	resolvePath(fileName: string): string | null {
+		return fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+	}
+
+	watch(): boolean {
+		return false;
+	}
+
+	close() {
+		this.trees.clear();
+		this.contentCache.clear();
+		this.commits.clear();
+	}
+}
+
+interface ZipEntry {
+	// Name inside the archive
+	name: string;
+	method: number;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	offset: number;
+	mtime: number;
+}
+
+// Larger entries are refused, so a crafted archive cannot exhaust memory
+const MAX_ZIP_ENTRY_SIZE = 64 * 1024 * 1024;
+
+// Names without the UTF-8 flag are in the original IBM PC code page; its lower half is ASCII
+const CP437_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+function inflateRaw(data: Buffer, maxOutputLength: number): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		zlib.inflateRaw(data, { maxOutputLength }, (error, result) => error ? reject(error) : resolve(result));
+	});
+}
+
+function decodeZipName(name: Buffer, utf8: boolean): string {
+	if (utf8) return name.toString('utf8');
+
+	let text = '';
+	for (let i = 0; i < name.length; i++) {
+		text += name[i] < 0x80 ? String.fromCharCode(name[i]) : CP437_HIGH[name[i] - 0x80];
+	}
+	return text;
+}
+
+// MS-DOS timestamps have two-second precision and no time zone
+function fromDosTime(date: number, time: number): number {
+	return new Date(((date >> 9) & 0x7f) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2).getTime();
+}
+
+// Reads the central directory, which lists every entry with its offset, at the end of the archive
+async function readZipDirectory(handle: fs.promises.FileHandle, archiveSize: number): Promise<ZipEntry[]> {
+	// The end of central directory record is followed by a comment of up to 64 KiB
+	const tailSize = Math.min(archiveSize, 0xffff + 22);
+	const tail = Buffer.alloc(tailSize);
+	await handle.read(tail, 0, tailSize, archiveSize - tailSize);
+
+	let end = -1;
+	for (let i = tailSize - 22; i >= 0; i--) {
+		if (tail.readUInt32LE(i) === 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end === -1) {
+		throw new Error('Not a zip archive');
+	}
+
+	const count = tail.readUInt16LE(end + 10);
+	const directorySize = tail.readUInt32LE(end + 12);
+	const directoryOffset = tail.readUInt32LE(end + 16);
+	if (count === 0xffff || directoryOffset === 0xffffffff) {
+		throw new Error('ZIP64 archives are not supported');
+	}
+	// The record is read from the archive itself, so a crafted one could ask for reads beyond its end
+	if (directoryOffset + directorySize > archiveSize) {
+		throw new Error('Corrupt zip archive');
+	}
+
+	const directory = Buffer.alloc(directorySize);
+	await handle.read(directory, 0, directorySize, directoryOffset);
+
+	const entries: ZipEntry[] = [];
+	let position = 0;
+	for (let i = 0; i < count; i++) {
+		if (position + 46 > directory.length || directory.readUInt32LE(position) !== 0x02014b50) {
+			throw new Error('Corrupt zip archive');
+		}
+
+		const nameLength = directory.readUInt16LE(position + 28);
+		const extraLength = directory.readUInt16LE(position + 30);
+		const commentLength = directory.readUInt16LE(position + 32);
+		if (position + 46 + nameLength + extraLength + commentLength > directory.length) {
+			throw new Error('Corrupt zip archive');
+		}
+		// General purpose flag bit 11 marks UTF-8 names
+		const utf8 = (directory.readUInt16LE(position + 8) & 0x800) !== 0;
+		entries.push({
+			name: decodeZipName(directory.subarray(position + 46, position + 46 + nameLength), utf8).replace(/\\/g, '/'),
+			method: directory.readUInt16LE(position + 10),
+			crc: directory.readUInt32LE(position + 16),
+			compressedSize: directory.readUInt32LE(position + 20),
+			size: directory.readUInt32LE(position + 24),
+			offset: directory.readUInt32LE(position + 42),
+			mtime: fromDosTime(directory.readUInt16LE(position + 14), directory.readUInt16LE(position + 12))
+		});
+		position += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+async function readZipEntry(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<Buffer> {
+	// The local header repeats the name and may carry a different extra field, so its length is read again
+	const header = Buffer.alloc(30);
+	await handle.read(header, 0, 30, entry.offset);
+	if (header.readUInt32LE(0) !== 0x04034b50) {
+		throw new Error(`Corrupt zip entry: ${entry.name}`);
+	}
+
+	if (entry.size > MAX_ZIP_ENTRY_SIZE || entry.compressedSize > MAX_ZIP_ENTRY_SIZE) {
+		throw new Error(`${entry.name} is too large to read from the archive`);
+	}
+
+	const data = Buffer.alloc(entry.compressedSize);
+	await handle.read(data, 0, entry.compressedSize, entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28));
+
+	if (entry.method === 0) return data;
+	// The declared size bounds the output, so an entry cannot inflate beyond what it claims
+	if (entry.method === 8) return await inflateRaw(data, Math.max(entry.size, 1));
+	throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}
+
+// Reads notes straight from a .zip export without unpacking it
+class ZipVaultSource implements VaultSource {
+	readonly root: string;
+	readonly pollInterval = INDEX_POLL_INTERVAL;
+	private archivePath: string;
+	private entries: Map<string, ZipEntry> | null = null;
+	private archiveStamp = '';
+	private watcher: fs.FSWatcher | null = null;
+	private contentCache = new Map<string, string>();
+
+	constructor(archivePath: string) {
+		this.archivePath = archivePath;
+		this.root = archivePath;
+	}
+
+	// The central directory is read again whenever the archive file is replaced
+	private async getEntries(): Promise<Map<string, ZipEntry>> {
+		const stats = await fs.promises.stat(this.archivePath);
+		const stamp = `${stats.mtimeMs}:${stats.size}`;
+		if (this.entries && stamp === this.archiveStamp) return this.entries;
+
+		const handle = await fs.promises.open(this.archivePath, 'r');
+		try {
+			// Attachments are kept so notes can show their images, but only notes are listed
+			const files = (await readZipDirectory(handle, stats.size)).filter(entry =>
+				!entry.name.endsWith('/') && !entry.name.split('/').some(part => part.startsWith('.') || part === '__MACOSX'));
+
+			// Exports usually wrap the vault in one top-level folder, which is treated as the vault root
+			const topLevel = files.length > 0 && files[0].name.indexOf('/') !== -1 ? files[0].name.split('/')[0] + '/' : '';
+			const strip = topLevel && files.every(entry => entry.name.startsWith(topLevel)) ? topLevel.length : 0;
+
+			this.entries = new Map(files.map(entry => [entry.name.substring(strip), entry]));
+			this.archiveStamp = stamp;
+			this.contentCache.clear();
+			return this.entries;
+		} finally {
+			await handle.close();
+		}
+	}
+
+	private toSourceEntry(relativePath: string, entry: ZipEntry): VaultSourceEntry {
+		return { path: relativePath, mtime: entry.mtime, size: entry.size, directory: false, version: `${entry.crc.toString(16)}:${entry.size}` };
+	}
+
+	async list(relativeDir: string): Promise<VaultSourceEntry[]> {
+		const prefix = relativeDir ? `${relativeDir}/` : '';
+		const files: VaultSourceEntry[] = [];
+		(await this.getEntries()).forEach((entry, relativePath) => {
+			if (relativePath.startsWith(prefix) && relativePath.endsWith('.md')) {
+				files.push(this.toSourceEntry(relativePath, entry));
+			}
+		});
+		return files;
+	}
+
+	async stat(relativePath: string): Promise<VaultSourceEntry | null> {
+		let entries: Map<string, ZipEntry>;
+		try {
+			entries = await this.getEntries();
+		} catch (error) {
+			return null;
+		}
+
+		const entry = entries.get(relativePath);
+		if (entry) return this.toSourceEntry(relativePath, entry);
+
+		const isDirectory = !relativePath || Array.from(entries.keys()).some(key => key.startsWith(`${relativePath}/`));
+		return isDirectory ? { path: relativePath, mtime: 0, size: 0, directory: true } : null;
+	}
+
+	async read(relativePath: string): Promise<string> {
+		// Looking up the entries first clears the cache when the archive has been replaced
+		await this.getEntries();
+		const cached = this.contentCache.get(relativePath);
+		if (cached !== undefined) return cached;
+
+		const content = (await this.readEntry(relativePath)).toString('utf8');
+		this.contentCache.set(relativePath, content);
+		if (this.contentCache.size > CONTENT_CACHE_SIZE) {
+			this.contentCache.delete(this.contentCache.keys().next().value as string);
+		}
+		return content;
+	}
+
+	async readBinary(relativePath: string): Promise<ArrayBuffer> {
+		return toArrayBuffer(await this.readEntry(relativePath));
+	}
+
+	private async readEntry(relativePath: string): Promise<Buffer> {
+		const entry = (await this.getEntries()).get(relativePath);
+		if (!entry) {
+			throw new Error(`${relativePath} is not in ${path.basename(this.archivePath)}`);
+		}
+
+		const handle = await fs.promises.open(this.archivePath, 'r');
+		try {
+			return await readZipEntry(handle, entry);
+		} finally {
+			await handle.close();
+		}
+	}
+
+	async write(): Promise<void> {
+		throw new Error('Zip archive mappings are read-only');
+	}
+
+	resolvePath(fileName: string): string | null {
+		return fileName.endsWith('.md') ? fileName : `${fileName}.md`;
+	}
+
+	// Replacing the archive usually swaps the file rather than writing to it, so its folder is watched
+	watch(onChange: (relativePath: string) => void, onError: () => void): boolean {
+		try {
+			const archiveName = path.basename(this.archivePath);
+			this.watcher = fs.watch(path.dirname(this.archivePath), (event, filename) => {
+				if (filename && filename.toString() === archiveName) {
+					onChange('');
+				}
+			});
+			this.watcher.on('error', () => {
+				this.close();
+				onError();
+			});
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+
+	close() {
+		if (this.watcher) {
+			this.watcher.close();
+			this.watcher = null;
+		}
+	}
+}
+
+class VaultIndex {
+	plugin: CrossVaultPlugin;
+	vaultMapping: VaultMapping;
+	source: VaultSource;
+	root: string;
+	// The source was created for this type, a mapping switched to another type needs a new index
+	type: VaultMappingType;
+	ready = false;
+	private files = new Map<string, IndexedFile>();
+	// Resolved link targets, valid until a path is added or removed
+	private resolved = new Map<string, string | null>();
+	private startPromise: Promise<void> | null = null;
+	private buildPromise: Promise<void> | null = null;
+	private pollTimer: number | null = null;
+	private saveTimer: number | null = null;
+	private pendingPaths = new Set<string>();
+	private pendingTimer: number | null = null;
+	private attachmentFolder: { folder: Promise<string>, readAt: number } | null = null;
+	private closed = false;
+
+	constructor(plugin: CrossVaultPlugin, vaultMapping: VaultMapping) {
+		this.plugin = plugin;
+		this.vaultMapping = vaultMapping;
+		this.source = createVaultSource(plugin, vaultMapping);
+		this.root = this.source.root;
+		this.type = vaultMapping.type || 'local';
+	}
+
+	start(): Promise<void> {
+		if (!this.startPromise) {
+			this.startPromise = (async () => {
+				await this.loadPersisted();
+				await this.build();
+				if (!this.closed) {
+					this.watch();
+				}
+			})();
+		}
+		return this.startPromise;
+	}
+
+	// Pending changes are written out unless the index is being discarded
+	close(flush = true) {
+		this.closed = true;
+		this.source.close();
+		if (this.pollTimer !== null) {
+			window.clearInterval(this.pollTimer);
+		}
+		if (this.pendingTimer !== null) {
+			window.clearTimeout(this.pendingTimer);
+		}
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+			if (flush) {
+				this.save();
+			}
+		}
+	}
+
+	// Waits for the persisted index to load and the first scan to finish, then for any scan in progress
+	whenReady(): Promise<void> {
+		return (this.startPromise || Promise.resolve()).then(() => this.buildPromise || undefined);
+	}
+
+	getFiles(): IndexedFile[] {
+		return Array.from(this.files.values());
+	}
+
+	getFile(relativePath: string): IndexedFile | null {
+		return this.files.get(relativePath) || null;
+	}
+
+	resolve(fileName: string): IndexedFile | null {
+		let relativePath = this.resolved.get(fileName);
+		if (relativePath === undefined) {
+			relativePath = findNotePath(Array.from(this.files.keys()), fileName);
+			this.resolved.set(fileName, relativePath);
+		}
+		return relativePath ? this.getFile(relativePath) : null;
+	}
+
+	// A wikilink inside the vault may also name a note by one of its aliases
+	resolveLink(linkpath: string, sourcePath: string): IndexedFile | null {
+		const relativePath = findLinkedNotePath(Array.from(this.files.keys()), linkpath, sourcePath);
+		if (relativePath) return this.getFile(relativePath);
+
+		const lowerLink = linkpath.toLowerCase();
+		return this.getFiles().find(file => file.aliases.some(alias => alias.toLowerCase() === lowerLink)) || null;
+	}
+
+	// Read from the vault's .obsidian/app.json; "/" (the root) is Obsidian's default
+	getAttachmentFolder(): Promise<string> {
+		if (!this.attachmentFolder || Date.now() - this.attachmentFolder.readAt > ATTACHMENT_FOLDER_TTL) {
+			const folder = this.source.read('.obsidian/app.json').then(content => {
+				const config = JSON.parse(content) as { attachmentFolderPath?: unknown };
+				return typeof config.attachmentFolderPath === 'string' ? config.attachmentFolderPath : '/';
+			}).catch(() => '/');
+			this.attachmentFolder = { folder, readAt: Date.now() };
+		}
+		return this.attachmentFolder.folder;
+	}
+
+	private async loadPersisted() {
+		try {
+			const storagePath = this.plugin.getIndexStoragePath(this.vaultMapping.name);
+			const adapter = this.plugin.app.vault.adapter;
+			if (!(await adapter.exists(storagePath))) return;
+
+			const persisted = JSON.parse(await adapter.read(storagePath)) as PersistedVaultIndex;
+			if (persisted.version !== INDEX_VERSION || persisted.root !== this.root) return;
+
+			persisted.files.forEach(file => this.files.set(file.path, file));
+			this.resolved.clear();
+			this.ready = true;
+		} catch (error) {
+			console.error('Error loading vault index:', error);
+		}
+	}
+
+	private async save() {
+		this.saveTimer = null;
+		try {
+			const storagePath = this.plugin.getIndexStoragePath(this.vaultMapping.name);
+			const adapter = this.plugin.app.vault.adapter;
+			const folder = storagePath.substring(0, storagePath.lastIndexOf('/'));
+			if (!(await adapter.exists(folder))) {
+				await adapter.mkdir(folder);
+			}
+
+			const persisted: PersistedVaultIndex = { version: INDEX_VERSION, root: this.root, files: this.getFiles() };
+			await adapter.write(storagePath, JSON.stringify(persisted));
+		} catch (error) {
+			console.error('Error saving vault index:', error);
+		}
+	}
+
+	async deletePersisted() {
+		try {
+			const storagePath = this.plugin.getIndexStoragePath(this.vaultMapping.name);
+			if (await this.plugin.app.vault.adapter.exists(storagePath)) {
+				await this.plugin.app.vault.adapter.remove(storagePath);
+			}
+		} catch (error) {
+			console.error('Error deleting vault index:', error);
+		}
+	}
+
+	private scheduleSave() {
+		if (this.closed) return;
+		if (this.saveTimer !== null) {
+			window.clearTimeout(this.saveTimer);
+		}
+		this.saveTimer = window.setTimeout(() => this.save(), 5000);
+	}
+
+	// Re-reads every file, including those whose mtime did not change
+	async rebuild() {
+		await this.whenReady();
+		await this.build(true);
+	}
+
+	// Walks the vault without blocking the UI, re-reading only files whose mtime changed
+	build(force = false): Promise<void> {
+		if (this.buildPromise) return this.buildPromise;
+
+		this.buildPromise = (async () => {
+			try {
+				const seen = new Set<string>();
+				const changed: string[] = [];
+				const added: string[] = [];
+				const removed: IndexedFile[] = [];
+				let processed = 0;
+
+				for (const entry of await this.source.list('')) {
+					if (this.closed) return;
+					seen.add(entry.path);
+					const isNew = !this.files.has(entry.path);
+					if (await this.indexFile(entry, force)) {
+						changed.push(entry.path);
+						if (isNew) added.push(entry.path);
+					}
+
+					// Yield to the UI between batches
+					if (++processed % INDEX_BATCH_SIZE === 0) {
+						await new Promise(resolve => window.setTimeout(resolve, 0));
+					}
+				}
+
+				this.files.forEach((file, relativePath) => {
+					if (!seen.has(relativePath)) {
+						removed.push(file);
+						changed.push(relativePath);
+					}
+				});
+				removed.forEach(file => this.files.delete(file.path));
+				if (removed.length > 0) {
+					this.resolved.clear();
+				}
+
+				this.ready = true;
+				this.commitChanges(changed, added, removed);
+			} catch (error) {
+				console.error(`Error indexing vault "${this.vaultMapping.name}":`, error);
+			} finally {
+				this.buildPromise = null;
+			}
+		})();
+
+		return this.buildPromise;
+	}
+
+	// Returns true when the entry was added or changed
+	private async indexFile(entry: VaultSourceEntry, force = false): Promise<boolean> {
+		const existing = this.files.get(entry.path);
+		// Sources that cannot report a modification time are re-read on every scan
+		const unchanged = entry.version
+			? existing && existing.version === entry.version
+			: existing && entry.mtime && existing.mtime === entry.mtime && existing.size === entry.size;
+		if (unchanged && !force) {
+			return false;
+		}
+
+		let content: string;
+		try {
+			content = await this.source.read(entry.path);
+		} catch (error) {
+			this.resolved.clear();
+			return this.files.delete(entry.path);
+		}
+
+		const hash = hashContent(content);
+		if (existing && existing.hash === hash && !force) {
+			existing.mtime = entry.mtime;
+			existing.size = entry.size;
+			existing.version = entry.version;
+			return false;
+		}
+
+		const frontmatter = parseFrontmatter(content);
+		if (!existing) {
+			this.resolved.clear();
+		}
+		this.files.set(entry.path, {
+			path: entry.path,
+			basename: path.basename(entry.path, '.md'),
+			mtime: entry.mtime,
+			size: entry.size,
+			version: entry.version,
+			hash,
+			subpaths: listSubpaths(content),
+			aliases: getFrontmatterList(frontmatter, 'aliases', 'alias'),
+			tags: extractTags(content, frontmatter),
+			frontmatter,
+			links: this.plugin.extractCrossVaultLinks(content)
+		});
+		return true;
+	}
+
+	private watch() {
+		// Recursive watching is not available on every platform, fall back to periodic rescans
+		if (!this.source.watch(relativePath => this.queueUpdate(relativePath), () => this.startPolling())) {
+			this.startPolling();
+		}
+	}
+
+	private startPolling() {
+		if (this.pollTimer === null && !this.closed) {
+			this.pollTimer = window.setInterval(() => this.build(), this.source.pollInterval);
+		}
+	}
+
+	// File events arrive in bursts, so changed paths are collected and processed together
+	private queueUpdate(relativePath: string) {
+		if (relativePath.split('/').some(part => part.startsWith('.'))) return;
+
+		this.pendingPaths.add(relativePath);
+		if (this.pendingTimer !== null) {
+			window.clearTimeout(this.pendingTimer);
+		}
+		this.pendingTimer = window.setTimeout(() => this.processPending(), 500);
+	}
+
+	private async processPending() {
+		this.pendingTimer = null;
+		const paths = Array.from(this.pendingPaths);
+		this.pendingPaths.clear();
+		const changed: string[] = [];
+		const added: string[] = [];
+		const removed: IndexedFile[] = [];
+
+		for (const relativePath of paths) {
+			if (this.closed) return;
+
+			// An empty path stands for the whole vault, e.g. when an archive is replaced
+			const prefix = relativePath ? `${relativePath}/` : '';
+			const dropMissing = (keep: Set<string>) => {
+				this.getFiles()
+					.filter(file => (file.path === relativePath || file.path.startsWith(prefix)) && !keep.has(file.path))
+					.forEach(file => {
+						this.files.delete(file.path);
+						this.resolved.clear();
+						removed.push(file);
+						changed.push(file.path);
+					});
+			};
+
+			const entry = await this.source.stat(relativePath);
+			if (!entry) {
+				// Deleted or moved away: drop the file, or everything below a removed folder
+				dropMissing(new Set());
+				continue;
+			}
+
+			const entries = entry.directory ? await this.source.list(relativePath) : (relativePath.endsWith('.md') ? [entry] : []);
+			if (entry.directory) {
+				dropMissing(new Set(entries.map(file => file.path)));
+			}
+			for (const file of entries) {
+				const isNew = !this.files.has(file.path);
+				if (await this.indexFile(file)) {
+					changed.push(file.path);
+					if (isNew) added.push(file.path);
+				}
+			}
+		}
+
+		this.commitChanges(changed, added, removed);
+	}
+
+	private commitChanges(changed: string[], added: string[], removed: IndexedFile[]) {
+		if (changed.length === 0) return;
+
+		this.scheduleSave();
+		this.plugin.indexEvents.trigger('changed', this.vaultMapping.name, changed);
+
+		const moves = this.detectMoves(added, removed);
+		if (moves.length > 0) {
+			this.plugin.indexEvents.trigger('moved', this.vaultMapping.name, moves);
+		}
+	}
+
+	// A removed note reappearing elsewhere with the same content, or as the only new note with its basename, was moved
+	private detectMoves(added: string[], removed: IndexedFile[]): IndexedMove[] {
+		const moves: IndexedMove[] = [];
+		const unclaimed = added.map(relativePath => this.files.get(relativePath)).filter((file): file is IndexedFile => !!file);
+
+		const claim = (from: IndexedFile, to: IndexedFile) => {
+			unclaimed.splice(unclaimed.indexOf(to), 1);
+			moves.push({ from: from.path, to: to.path });
+		};
+
+		const unmatched: IndexedFile[] = [];
+		removed.forEach(file => {
+			const sameContent = unclaimed.find(candidate => candidate.hash === file.hash);
+			if (sameContent) {
+				claim(file, sameContent);
+			} else {
+				unmatched.push(file);
+			}
+		});
+
+		unmatched.forEach(file => {
+			const sameBasename = unclaimed.filter(candidate => candidate.basename === file.basename);
+			const removedWithBasename = unmatched.filter(other => other.basename === file.basename);
+			if (sameBasename.length === 1 && removedWithBasename.length === 1) {
+				claim(file, sameBasename[0]);
+			}
+		});
+
+		return moves;
+	}
+}
+
+const CACHE_MANIFEST_VERSION = 1;
+const STALE_CACHE_MESSAGE = 'Cached copy is out of date. Open the link to refresh it.';
+
+const WRITE_BACK_DELAY = 2000;
+// Larger changed regions are left unmatched and surface as a single conflict
+const MAX_MERGE_TABLE_SIZE = 4 * 1000 * 1000;
+
+// Marks copies of a pinned revision, with characters file names cannot hold replaced
+function getRefSuffix(ref?: string): string {
+	return ref ? ` @ ${ref.replace(/[\\/:*?"<>|#^[\]]/g, '-')}` : '';
+}
+
+// Maps each line of base to its position in other along a longest common subsequence, or -1
+function matchLines(base: string[], other: string[]): number[] {
+	const matches = base.map(() => -1);
+
+	// Common prefix and suffix are matched directly to keep the table small
+	let start = 0;
+	while (start < base.length && start < other.length && base[start] === other[start]) {
+		matches[start] = start;
+		start++;
+	}
+	let baseEnd = base.length;
+	let otherEnd = other.length;
+	while (baseEnd > start && otherEnd > start && base[baseEnd - 1] === other[otherEnd - 1]) {
+		baseEnd--;
+		otherEnd--;
+		matches[baseEnd] = otherEnd;
+	}
+
+	const rows = baseEnd - start;
+	const cols = otherEnd - start;
+	if (rows * cols > MAX_MERGE_TABLE_SIZE) return matches;
+	const width = cols + 1;
+	const lengths = new Uint32Array((rows + 1) * width);
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = cols - 1; j >= 0; j--) {
+			lengths[i * width + j] = base[start + i] === other[start + j]
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < rows && j < cols) {
+		if (base[start + i] === other[start + j]) {
+			matches[start + i] = start + j;
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+
+	return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+// Line-based three-way merge: regions changed on one side only are taken from that side,
+// regions changed differently on both sides become conflicts
+function mergeLines(base: string[], local: string[], source: string[]): MergeChunk[] {
+	const localMatches = matchLines(base, local);
+	const sourceMatches = matchLines(base, source);
+	const chunks: MergeChunk[] = [];
+
+	const pushLines = (lines: string[]) => {
+		if (lines.length === 0) return;
+		const last = chunks[chunks.length - 1];
+		if (last && !last.conflict) {
+			last.lines.push(...lines);
+		} else {
+			chunks.push({ lines: lines.slice() });
+		}
+	};
+
+	let b = 0;
+	let l = 0;
+	let s = 0;
+	for (;;) {
+		// Next base line that both sides kept
+		let next = b;
+		while (next < base.length && (localMatches[next] === -1 || sourceMatches[next] === -1)) {
+			next++;
+		}
+
+		const localEnd = next < base.length ? localMatches[next] : local.length;
+		const sourceEnd = next < base.length ? sourceMatches[next] : source.length;
+		const baseChunk = base.slice(b, next);
+		const localChunk = local.slice(l, localEnd);
+		const sourceChunk = source.slice(s, sourceEnd);
+
+		if (sameLines(localChunk, baseChunk)) {
+			pushLines(sourceChunk);
+		} else if (sameLines(sourceChunk, baseChunk) || sameLines(localChunk, sourceChunk)) {
+			pushLines(localChunk);
+		} else {
+			chunks.push({ lines: [], conflict: { base: baseChunk, local: localChunk, source: sourceChunk } });
+		}
+
+		if (next >= base.length) break;
+		pushLines([base[next]]);
+		b = next + 1;
+		l = localEnd + 1;
+		s = sourceEnd + 1;
+	}
+
+	return chunks;
+}
+
+class LocalCache {
+	private plugin: CrossVaultPlugin;
+	private entries = new Map<string, CacheEntry>();
+	private writeBackTimers = new Map<string, number>();
+	private merging = new Set<string>();
+
+	constructor(plugin: CrossVaultPlugin) {
+		this.plugin = plugin;
+	}
+
+	async load() {
+		try {
+			const manifestPath = this.plugin.getStoragePath('cache-manifest.json');
+			const adapter = this.plugin.app.vault.adapter;
+			if (!(await adapter.exists(manifestPath))) return;
+
+			const manifest = JSON.parse(await adapter.read(manifestPath)) as CacheManifest;
+			if (manifest.version !== CACHE_MANIFEST_VERSION) return;
+
+			manifest.entries.forEach(entry => this.entries.set(entry.localPath, entry));
+		} catch (error) {
+			console.error('Error loading cache manifest:', error);
+		}
+	}
+
+	close() {
+		this.writeBackTimers.forEach(timer => window.clearTimeout(timer));
+		this.writeBackTimers.clear();
+	}
+
+	private async save() {
+		try {
+			const manifest: CacheManifest = { version: CACHE_MANIFEST_VERSION, entries: this.getEntries() };
+			await this.plugin.app.vault.adapter.write(this.plugin.getStoragePath('cache-manifest.json'), JSON.stringify(manifest, null, '\t'));
+		} catch (error) {
+			console.error('Error saving cache manifest:', error);
+		}
+	}
+
+	getEntries(): CacheEntry[] {
+		return Array.from(this.entries.values());
+	}
+
+	// Entries keep their local paths, only the vault they are synced with is renamed
+	async renameVault(previous: string, name: string) {
+		let renamed = false;
+		this.entries.forEach(entry => {
+			if (entry.vault === previous) {
+				entry.vault = name;
+				renamed = true;
+			}
+		});
+		if (renamed) {
+			await this.save();
+		}
+	}
+
+	getEntry(vaultName: string, sourcePath: string, ref?: string): CacheEntry | null {
+		return this.getEntries().find(entry => entry.vault === vaultName && entry.sourcePath === sourcePath && entry.ref === ref) || null;
+	}
+
+	// Copies of a pinned revision sit next to the current one, e.g. "Note @ v1.2.md"
+	getLocalPath(vaultName: string, sourcePath: string, ref?: string): string {
+		return normalizePath(`${this.plugin.settings.cacheFolder}/${vaultName}/${sourcePath.replace(/\.md$/, '')}${getRefSuffix(ref)}.md`);
+	}
+
+	// Attachments of a pinned revision get the same suffix, e.g. "Diagram @ v1.2.png"
+	private getLocalAttachmentPath(vaultName: string, attachmentPath: string, ref?: string): string {
+		const extension = path.posix.extname(attachmentPath);
+		const stem = attachmentPath.substring(0, attachmentPath.length - extension.length);
+		return normalizePath(`${this.plugin.settings.cacheFolder}/${vaultName}/${stem}${getRefSuffix(ref)}${extension}`);
+	}
+
+	getStatus(vaultMapping: VaultMapping, fileName: string, sourceContent: string, ref?: string): CacheStatus {
+		if (!this.plugin.usesLocalCache(vaultMapping)) return 'none';
+
+		const sourcePath = this.plugin.resolveVaultRelativePath(vaultMapping, fileName);
+		const entry = sourcePath ? this.getEntry(vaultMapping.name, sourcePath, ref) : null;
+		if (!entry || !(this.plugin.app.vault.getAbstractFileByPath(entry.localPath) instanceof TFile)) return 'none';
+
+		return entry.sourceHash === hashContent(sourceContent) ? 'fresh' : 'stale';
+	}
+
+	// Copies a note into the cache folder, skipping the write when the cached copy is current
+	async cacheFile(vaultMapping: VaultMapping, fileName: string, content: string, ref?: string): Promise<TFile | null> {
+		try {
+			const source = this.plugin.getVaultSource(vaultMapping);
+			const sourcePath = ref && source instanceof GitVaultSource
+				? await source.resolveAtRef(ref, fileName)
+				: this.plugin.resolveVaultRelativePath(vaultMapping, fileName);
+			if (!sourcePath) {
+				new Notice(`File not found: ${vaultMapping.name}/${fileName}`);
+				return null;
+			}
+
+			const entry = this.getEntry(vaultMapping.name, sourcePath, ref);
+			const localPath = entry ? entry.localPath : this.getLocalPath(vaultMapping.name, sourcePath, ref);
+			const existing = this.plugin.app.vault.getAbstractFileByPath(localPath);
+			const sourceHash = hashContent(content);
+			if (entry && existing instanceof TFile && entry.sourceHash === sourceHash) {
+				return existing;
+			}
+
+			// Never overwrite local edits that have not been written back yet
+			if (entry && existing instanceof TFile && !ref && vaultMapping.enableWriteBack && hashContent(this.restoreLinks(entry, await this.plugin.app.vault.read(existing))) !== entry.sourceHash) {
+				await this.writeBack(localPath);
+				return existing;
+			}
+
+			const localized = await this.localizeLinks(vaultMapping, sourcePath, content, ref);
+			const cachedFile = await this.writeLocalCopy(localPath, localized.content);
+			await this.recordSync(vaultMapping, localPath, sourcePath, content, ref, localized);
+
+			new Notice(`File cached locally: ${localPath}`);
+			return cachedFile;
+		} catch (error) {
+			new Notice(`Failed to cache file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return null;
+		}
+	}
+
+	// Remembers the content both sides agreed on, which is the base for later merges
+	private async recordSync(vaultMapping: VaultMapping, localPath: string, sourcePath: string, content: string, ref?: string, localized?: LocalizedNote) {
+		const previous = this.entries.get(localPath);
+		const stats = await this.plugin.getVaultSource(vaultMapping).stat(sourcePath);
+		const sourceHash = hashContent(content);
+		this.entries.set(localPath, {
+			localPath,
+			vault: vaultMapping.name,
+			sourcePath,
+			sourceMtime: stats ? stats.mtime : 0,
+			sourceHash,
+			cachedAt: Date.now(),
+			ref,
+			rewrites: localized ? localized.rewrites : previous && previous.rewrites,
+			attachments: localized ? localized.attachments : previous && previous.attachments
+		});
+
+		await this.writeBase(sourceHash, content);
+		if (previous && previous.sourceHash !== sourceHash) {
+			await this.removeBase(previous.sourceHash);
+		}
+		await this.save();
+	}
+
+	private getBasePath(hash: string): string {
+		return this.plugin.getStoragePath(`cache-base/${hash}.md`);
+	}
+
+	private async readBase(hash: string): Promise<string | null> {
+		const adapter = this.plugin.app.vault.adapter;
+		const basePath = this.getBasePath(hash);
+		return (await adapter.exists(basePath)) ? await adapter.read(basePath) : null;
+	}
+
+	private async writeBase(hash: string, content: string) {
+		const adapter = this.plugin.app.vault.adapter;
+		const basePath = this.getBasePath(hash);
+		const folder = basePath.substring(0, basePath.lastIndexOf('/'));
+		if (!(await adapter.exists(folder))) {
+			await adapter.mkdir(folder);
+		}
+		await adapter.write(basePath, content);
+	}
+
+	// Bases are shared by content, so only remove one no entry points at
+	private async removeBase(hash: string) {
+		if (this.getEntries().some(entry => entry.sourceHash === hash)) return;
+		const basePath = this.getBasePath(hash);
+		if (await this.plugin.app.vault.adapter.exists(basePath)) {
+			await this.plugin.app.vault.adapter.remove(basePath);
+		}
+	}
+
+	// Debounced so a burst of keystrokes becomes a single write to the source vault
+	queueWriteBack(file: TFile) {
+		const entry = this.entries.get(file.path);
+		const vaultMapping = entry && !entry.ref ? this.plugin.getVaultMapping(entry.vault) : null;
+		if (!vaultMapping || !this.plugin.usesLocalCache(vaultMapping) || !vaultMapping.enableWriteBack) return;
+
+		const timer = this.writeBackTimers.get(file.path);
+		if (timer !== undefined) {
+			window.clearTimeout(timer);
+		}
+		this.writeBackTimers.set(file.path, window.setTimeout(() => this.writeBack(file.path), WRITE_BACK_DELAY));
+	}
+
+	async writeBack(localPath: string) {
+		this.writeBackTimers.delete(localPath);
+		if (this.merging.has(localPath)) return;
+
+		// Copies of a pinned revision are never written back
+		const entry = this.entries.get(localPath);
+		const vaultMapping = entry && !entry.ref ? this.plugin.getVaultMapping(entry.vault) : null;
+		const localFile = this.plugin.app.vault.getAbstractFileByPath(localPath);
+		if (!entry || !vaultMapping || !(localFile instanceof TFile)) return;
+
+		try {
+			const localContent = this.restoreLinks(entry, await this.plugin.app.vault.read(localFile));
+			const localHash = hashContent(localContent);
+			if (localHash === entry.sourceHash) return;
+
+			const source = this.plugin.getVaultSource(vaultMapping);
+			if (!(await source.stat(entry.sourcePath))) {
+				new Notice(`Cannot write back ${localPath}: ${entry.vault}/${entry.sourcePath} no longer exists`);
+				return;
+			}
+
+			const sourceContent = await source.read(entry.sourcePath);
+			const sourceHash = hashContent(sourceContent);
+			if (sourceHash === localHash) {
+				await this.recordSync(vaultMapping, localPath, entry.sourcePath, localContent);
+			} else if (sourceHash === entry.sourceHash) {
+				await source.write(entry.sourcePath, localContent);
+				await this.recordSync(vaultMapping, localPath, entry.sourcePath, localContent);
+				new Notice(`Saved changes to ${entry.vault}/${entry.sourcePath}`);
+			} else {
+				// Both sides changed since the last sync
+				const base = await this.readBase(entry.sourceHash);
+				const chunks = mergeLines((base || '').split('\n'), localContent.split('\n'), sourceContent.split('\n'));
+				if (chunks.every(chunk => !chunk.conflict)) {
+					const merged: string[] = [];
+					chunks.forEach(chunk => merged.push(...chunk.lines));
+					await this.resolveMerge(entry, merged.join('\n'));
+					return;
+				}
+				this.merging.add(localPath);
+				new WriteBackMergeModal(this.plugin.app, this, entry, chunks, () => this.merging.delete(localPath)).open();
+			}
+		} catch (error) {
+			new Notice(`Failed to write back ${localPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	// Writes the merged note to both the source vault and the cached copy
+	async resolveMerge(entry: CacheEntry, content: string) {
+		const vaultMapping = this.plugin.getVaultMapping(entry.vault);
+		const localFile = this.plugin.app.vault.getAbstractFileByPath(entry.localPath);
+		if (!vaultMapping || !(localFile instanceof TFile)) return;
+
+		try {
+			await this.plugin.getVaultSource(vaultMapping).write(entry.sourcePath, content);
+			const localized = await this.localizeLinks(vaultMapping, entry.sourcePath, content);
+			await this.recordSync(vaultMapping, entry.localPath, entry.sourcePath, content, undefined, localized);
+			if (await this.plugin.app.vault.read(localFile) !== localized.content) {
+				await this.plugin.app.vault.modify(localFile, localized.content);
+			}
+			new Notice(`Saved merged changes to ${entry.vault}/${entry.sourcePath}`);
+		} catch (error) {
+			new Notice(`Failed to save merge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	// Links in the copy would otherwise resolve against this vault: notes become cross-vault links and
+	// embedded attachments are copied next to it, mirroring their place in the source vault
+	private async localizeLinks(vaultMapping: VaultMapping, sourcePath: string, content: string, ref?: string): Promise<LocalizedNote> {
+		const index = this.plugin.getVaultIndex(vaultMapping);
+		await index.whenReady();
+
+		const rewrites: Record<string, string> = {};
+		const attachments: string[] = [];
+		const lines = content.split('\n');
+		const contentLines = getContentLines(content);
+
+		const localizeAttachment = async (linkpath: string): Promise<string | null> => {
+			const attachment = await this.plugin.findVaultAttachment(vaultMapping, sourcePath, linkpath, ref);
+			if (!attachment) return null;
+
+			const attachmentPath = this.getLocalAttachmentPath(vaultMapping.name, attachment.path, ref);
+			await this.writeLocalAttachment(attachmentPath, attachment.data);
+			if (attachments.indexOf(attachmentPath) === -1) attachments.push(attachmentPath);
+			return attachmentPath;
+		};
+
+		for (let i = 0; i < lines.length; i++) {
+			if (contentLines[i].skip) continue;
+
+			const replacements: { original: string, localized: string }[] = [];
+			const wikilinkRegex = new RegExp(WIKILINK_REGEX.source, 'g');
+			let match;
+			while ((match = wikilinkRegex.exec(lines[i])) !== null) {
+				const target = splitSubpath(match[2]);
+				// [[#Heading]] still works inside the copy, and cross-vault links are already absolute
+				if (!target.file || match[2].indexOf('::') !== -1) continue;
+
+				const extension = target.file.indexOf('.') === -1 ? '' : target.file.split('.').pop()!.toLowerCase();
+				const attachmentPath = extension && extension !== 'md' ? await localizeAttachment(target.file) : null;
+				if (attachmentPath) {
+					replacements.push({ original: match[0], localized: `${match[1]}[[${attachmentPath}${target.subpath || ''}${match[3] || ''}]]` });
+					continue;
+				}
+
+				// Names with a dot that is not an attachment, like "Release 1.2", are notes too
+				const indexed = index.resolveLink(target.file, sourcePath);
+				if (indexed || !extension || extension === 'md') {
+					const file = indexed ? indexed.path.replace(/\.md$/, '') : target.file;
+					replacements.push({ original: match[0], localized: buildCompactLink(vaultMapping.name, file, target.subpath, match[3] ? match[3].substring(1) : undefined, !!match[1]) });
+				}
+			}
+
+			const imageRegex = new RegExp(MARKDOWN_IMAGE_REGEX.source, 'g');
+			while ((match = imageRegex.exec(lines[i])) !== null) {
+				if (/^[a-z][\w+.-]*:/i.test(match[2])) continue;
+
+				const attachmentPath = await localizeAttachment(match[2]);
+				if (attachmentPath) {
+					replacements.push({ original: match[0], localized: `![${match[1]}](${attachmentPath.replace(/ /g, '%20')})` });
+				}
+			}
+
+			// A rewrite must map back to exactly one original, or write-back could not undo it
+			replacements.forEach(({ original, localized }) => {
+				if (rewrites[localized] !== undefined ? rewrites[localized] !== original : content.indexOf(localized) !== -1) return;
+				rewrites[localized] = original;
+				lines[i] = lines[i].split(original).join(localized);
+			});
+		}
+
+		return { content: lines.join('\n'), rewrites, attachments };
+	}
+
+	// Undoes localizeLinks so only the user's own edits reach the source vault
+	private restoreLinks(entry: CacheEntry, content: string): string {
+		const rewrites = entry.rewrites || {};
+		const localized = Object.keys(rewrites).sort((a, b) => b.length - a.length);
+		if (localized.length === 0) return content;
+		return content.replace(new RegExp(localized.map(escapeRegExp).join('|'), 'g'), (match) => rewrites[match]);
+	}
+
+	private async ensureFolder(localPath: string) {
+		const vault = this.plugin.app.vault;
+		const folder = localPath.substring(0, localPath.lastIndexOf('/'));
+		if (folder && !vault.getAbstractFileByPath(folder)) {
+			await vault.createFolder(folder);
+		}
+	}
+
+	// Write through the vault API so the copy is indexed before it is opened
+	private async writeLocalCopy(localPath: string, content: string): Promise<TFile> {
+		const vault = this.plugin.app.vault;
+		await this.ensureFolder(localPath);
+
+		const existing = vault.getAbstractFileByPath(localPath);
+		if (existing instanceof TFile) {
+			await vault.modify(existing, content);
+			return existing;
+		}
+		return await vault.create(localPath, content);
+	}
+
+	private async writeLocalAttachment(localPath: string, data: ArrayBuffer) {
+		const vault = this.plugin.app.vault;
+		const existing = vault.getAbstractFileByPath(localPath);
+		if (existing instanceof TFile) {
+			// An edited image often keeps its size, so the bytes themselves are compared
+			if (!Buffer.from(await vault.readBinary(existing)).equals(Buffer.from(data))) {
+				await vault.modifyBinary(existing, data);
+			}
+			return;
+		}
+
+		await this.ensureFolder(localPath);
+		await vault.createBinary(localPath, data);
+	}
+
+	async refreshAll(): Promise<{ refreshed: number, unchanged: number, missing: number }> {
+		const result = { refreshed: 0, unchanged: 0, missing: 0 };
+
+		for (const entry of this.getEntries()) {
+			const vaultMapping = this.plugin.getVaultMapping(entry.vault);
+			const content = vaultMapping ? await this.plugin.getFileFromVault(vaultMapping, entry.sourcePath, entry.ref) : null;
+			if (!vaultMapping || content === null) {
+				result.missing++;
+				continue;
+			}
+
+			if (entry.sourceHash === hashContent(content) && this.plugin.app.vault.getAbstractFileByPath(entry.localPath)) {
+				result.unchanged++;
+				continue;
+			}
+
+			if (await this.cacheFile(vaultMapping, entry.sourcePath, content, entry.ref)) {
+				result.refreshed++;
+			}
+		}
+
+		return result;
+	}
+
+	// Removes cached copies that no note outside the cache folder links to, by cross-vault link or by wikilink
+	async evictUnused(): Promise<number> {
+		const vault = this.plugin.app.vault;
+		const cacheFolder = normalizePath(this.plugin.settings.cacheFolder) + '/';
+		const referenced = new Set<string>();
+
+		for (const file of vault.getMarkdownFiles()) {
+			if (file.path.startsWith(cacheFolder)) continue;
+
+			const content = await vault.cachedRead(file);
+			this.plugin.extractCrossVaultLinks(content).forEach(link => {
+				const vaultMapping = this.plugin.getVaultMapping(link.vault);
+				const sourcePath = vaultMapping ? this.plugin.resolveVaultRelativePath(vaultMapping, link.file) : null;
+				const entry = vaultMapping && sourcePath ? this.getEntry(vaultMapping.name, sourcePath, link.ref) : null;
+				if (entry) referenced.add(entry.localPath);
+			});
+
+			const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks[file.path] || {};
+			Object.keys(resolvedLinks).forEach(target => referenced.add(target));
+		}
+
+		let evicted = 0;
+		for (const entry of this.getEntries()) {
+			if (referenced.has(entry.localPath)) continue;
+
+			const localFile = vault.getAbstractFileByPath(entry.localPath);
+			if (localFile instanceof TFile) {
+				await this.plugin.app.fileManager.trashFile(localFile);
+				evicted++;
+			}
+			this.entries.delete(entry.localPath);
+			await this.removeBase(entry.sourceHash);
+
+			// Copied attachments go with the last cached note that embeds them
+			for (const attachmentPath of entry.attachments || []) {
+				const attachment = vault.getAbstractFileByPath(attachmentPath);
+				const inUse = referenced.has(attachmentPath) || this.getEntries().some(other => (other.attachments || []).indexOf(attachmentPath) !== -1);
+				if (attachment instanceof TFile && !inUse) {
+					await this.plugin.app.fileManager.trashFile(attachment);
+				}
+			}
+		}
+
+		await this.save();
+		return evicted;
+	}
+}
+
+const PREVIEW_HIDE_DELAY = 300;
+
+// Hover popover for a note in a mapped vault; like Page Preview it stays open while hovered and can be pinned
+class CrossVaultHoverPreview extends Component {
+	readonly targetEl: HTMLElement;
+	containerEl!: HTMLElement;
+	contentEl!: HTMLElement;
+	pinned = false;
+	private vaultName: string;
+	private title: string;
+	private revision: string | null;
+	private hideTimer: number | null = null;
+	private onClose: () => void;
+
+	constructor(targetEl: HTMLElement, vaultName: string, title: string, revision: string | null, onClose: () => void) {
+		super();
+		this.targetEl = targetEl;
+		this.vaultName = vaultName;
+		this.title = title;
+		this.revision = revision;
+		this.onClose = onClose;
+	}
+
+	onload() {
+		this.containerEl = document.body.createDiv({ cls: 'cross-vault-preview' });
+
+		const headerEl = this.containerEl.createDiv({ cls: 'cross-vault-preview-header' });
+		headerEl.createDiv({ cls: 'cross-vault-preview-title', text: this.title });
+		headerEl.createSpan({ cls: 'cross-vault-preview-vault', text: this.vaultName });
+
+		const pinButton = headerEl.createDiv({ cls: 'clickable-icon cross-vault-preview-pin', attr: { 'aria-label': 'Pin preview' } });
+		setIcon(pinButton, 'pin');
+		const closeButton = headerEl.createDiv({ cls: 'clickable-icon cross-vault-preview-close', attr: { 'aria-label': 'Close preview' } });
+		setIcon(closeButton, 'x');
+		closeButton.hide();
+
+		this.registerDomEvent(pinButton, 'click', () => {
+			this.pinned = true;
+			this.cancelHide();
+			this.containerEl.addClass('is-pinned');
+			pinButton.hide();
+			closeButton.show();
+		});
+		this.registerDomEvent(closeButton, 'click', () => this.onClose());
+
+		this.contentEl = this.containerEl.createDiv({ cls: 'cross-vault-preview-content markdown-rendered' });
+		if (this.revision) {
+			this.containerEl.createDiv({ cls: 'cross-vault-preview-revision', text: `Revision: ${this.revision}` });
+		}
+
+		// Moving from the link into the preview keeps it open
+		this.registerDomEvent(this.targetEl, 'mouseenter', () => this.cancelHide());
+		this.registerDomEvent(this.targetEl, 'mouseleave', () => this.scheduleHide());
+		this.registerDomEvent(this.containerEl, 'mouseenter', () => this.cancelHide());
+		this.registerDomEvent(this.containerEl, 'mouseleave', () => this.scheduleHide());
+
+		this.register(() => {
+			this.cancelHide();
+			this.containerEl.remove();
+		});
+		this.position();
+	}
+
+	// Below the link, or above it when there is no room below
+	position() {
+		const rect = this.targetEl.getBoundingClientRect();
+		const height = this.containerEl.offsetHeight;
+		const width = this.containerEl.offsetWidth;
+		const below = rect.bottom + 5;
+		const top = below + height > window.innerHeight && rect.top - 5 - height > 0 ? rect.top - 5 - height : below;
+		this.containerEl.style.top = `${top}px`;
+		this.containerEl.style.left = `${Math.max(5, Math.min(rect.left, window.innerWidth - width - 5))}px`;
+	}
+
+	cancelHide() {
+		if (this.hideTimer !== null) {
+			window.clearTimeout(this.hideTimer);
+			this.hideTimer = null;
+		}
+	}
+
+	private scheduleHide() {
+		if (this.pinned) return;
+		this.cancelHide();
+		this.hideTimer = window.setTimeout(() => {
+			this.hideTimer = null;
+			this.onClose();
+		}, PREVIEW_HIDE_DELAY);
+	}
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	svg: 'image/svg+xml',
+	bmp: 'image/bmp',
+	avif: 'image/avif'
+};
+
+const MAX_EMBED_DEPTH = 5;
+
+class CrossVaultEmbed extends MarkdownRenderChild {
+	private plugin: CrossVaultPlugin;
+	private parsedUrl: ObsidianUrl;
+	private renderComponent: Component | null = null;
+	private renderTimer: number | null = null;
+	// Renders overlap when the note changes while it is still being read, only the latest one may fill the container
+	private renderGeneration = 0;
+
+	constructor(containerEl: HTMLElement, plugin: CrossVaultPlugin, parsedUrl: ObsidianUrl) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.parsedUrl = parsedUrl;
+	}
+
+	onload() {
+		this.containerEl.addClass('cross-vault-embed');
+		this.render();
+
+		// Re-render when the index reports a change to the embedded file
+		this.registerEvent(this.plugin.onIndexChanged((vaultName, paths) => {
+			const vaultMapping = this.plugin.getVaultMapping(this.parsedUrl.vault);
+			if (!vaultMapping || vaultMapping.name !== vaultName) return;
+
+			const indexed = this.plugin.getVaultIndex(vaultMapping).resolve(this.parsedUrl.file);
+			if (!indexed || paths.indexOf(indexed.path) !== -1 || this.containerEl.querySelector('.cross-vault-embed-error')) {
+				this.scheduleRender();
+			}
+		}));
+	}
+
+	onunload() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+	}
+
+	// Embeds rendered inside other embeds are marked on the DOM, so walking up finds the chain
+	private getAncestors(): string[] {
+		const ancestors: string[] = [];
+		let element = this.containerEl.parentElement;
+		while (element) {
+			if (element.dataset.crossVaultEmbed) {
+				ancestors.push(element.dataset.crossVaultEmbed);
+			}
+			element = element.parentElement;
+		}
+		return ancestors;
+	}
+
+	private async render() {
+		const { containerEl, parsedUrl } = this;
+		const generation = ++this.renderGeneration;
+		containerEl.empty();
+
+		if (this.renderComponent) {
+			this.removeChild(this.renderComponent);
+			this.renderComponent = null;
+		}
+
+		const titleEl = containerEl.createDiv({ cls: 'cross-vault-embed-title', text: this.plugin.getDisplayText(parsedUrl) });
+
+		const vaultMapping = this.plugin.getVaultMapping(parsedUrl.vault);
+		if (!vaultMapping) {
+			const errorEl = this.renderError(`Vault "${parsedUrl.vault}" not mapped. Click to map.`);
+			errorEl.addEventListener('click', () => this.plugin.showVaultMappingDialog(parsedUrl));
+			return;
+		}
+
+		const key = `${vaultMapping.name}/${parsedUrl.file}${parsedUrl.subpath || ''}${parsedUrl.ref ? `@${parsedUrl.ref}` : ''}`;
+		const ancestors = this.getAncestors();
+		if (ancestors.indexOf(key) !== -1) {
+			this.renderError(`Embed loop: ${this.plugin.getDisplayText(parsedUrl)} embeds itself`);
+			return;
+		}
+		if (ancestors.length >= MAX_EMBED_DEPTH) {
+			this.renderError(`Embeds nested deeper than ${MAX_EMBED_DEPTH} levels are not rendered`);
+			return;
+		}
+		containerEl.dataset.crossVaultEmbed = key;
+
+		const fileContent = await this.plugin.getFileFromVault(vaultMapping, parsedUrl.file, parsedUrl.ref);
+		if (generation !== this.renderGeneration) return;
+		if (fileContent === null) {
+			this.renderError('File not found');
+			return;
+		}
+
+		titleEl.addEventListener('click', () => {
+			this.plugin.openCrossVaultFile(vaultMapping, parsedUrl.file, fileContent, parsedUrl.subpath, parsedUrl.ref);
+		});
+
+		let markdown = fileContent;
+		if (parsedUrl.subpath) {
+			const section = extractSubpath(fileContent, parsedUrl.subpath);
+			if (section === null) {
+				this.renderError(this.plugin.getMissingSubpathMessage(parsedUrl));
+				return;
+			}
+			markdown = section;
+		}
+
+		// Child components belong to a single render and are dropped on the next refresh
+		const renderComponent = new Component();
+		this.renderComponent = renderComponent;
+		this.addChild(renderComponent);
+
+		const bodyEl = containerEl.createDiv({ cls: 'cross-vault-embed-content markdown-rendered' });
+		await this.plugin.renderExternalMarkdown(bodyEl, vaultMapping, parsedUrl.file, markdown, renderComponent, undefined, parsedUrl.ref);
+	}
+
+	private renderError(message: string): HTMLElement {
+		return this.containerEl.createDiv({ cls: 'cross-vault-embed-error cross-vault-error', text: message });
+	}
+
+	// Bursts of changes are batched before re-rendering
+	private scheduleRender() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, 300);
+	}
+}
+
+// Lists the notes of a mapped vault that match a cross-vault-query block, re-rendered when that vault changes
+class CrossVaultQueryBlock extends MarkdownRenderChild {
+	private plugin: CrossVaultPlugin;
+	private source: string;
+	private sourcePath: string;
+	private vaultName: string | null = null;
+	private renderComponent: Component | null = null;
+	private renderTimer: number | null = null;
+	private renderGeneration = 0;
+
+	constructor(containerEl: HTMLElement, plugin: CrossVaultPlugin, source: string, sourcePath: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+		this.sourcePath = sourcePath;
+	}
+
+	onload() {
+		this.containerEl.addClass('cross-vault-query');
+		this.render();
+
+		this.registerEvent(this.plugin.onIndexChanged((vaultName) => {
+			if (vaultName === this.vaultName) {
+				this.scheduleRender();
+			}
+		}));
+	}
+
+	onunload() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+	}
+
+	private async render() {
+		const { containerEl } = this;
+		const generation = ++this.renderGeneration;
+		containerEl.empty();
+
+		if (this.renderComponent) {
+			this.removeChild(this.renderComponent);
+			this.renderComponent = null;
+		}
+
+		let query: VaultQuery;
+		try {
+			query = parseVaultQuery(this.source, new Date());
+		} catch (error) {
+			this.renderError(`Invalid cross-vault query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return;
+		}
+
+		const vaultMapping = this.plugin.getVaultMapping(query.vault);
+		if (!vaultMapping) {
+			this.renderError(`Vault "${query.vault}" not mapped`);
+			return;
+		}
+		this.vaultName = vaultMapping.name;
+
+		const index = this.plugin.getVaultIndex(vaultMapping);
+		await index.whenReady();
+		if (generation !== this.renderGeneration) return;
+
+		const notes = runVaultQuery(index.getFiles(), query);
+		if (notes.length === 0) {
+			containerEl.createDiv({ cls: 'cross-vault-empty', text: `No matching notes in ${vaultMapping.name}` });
+			return;
+		}
+
+		// The links are rendered like any other cross-vault link, with status and hover preview
+		const renderComponent = new Component();
+		this.renderComponent = renderComponent;
+		this.addChild(renderComponent);
+
+		const markdown = query.format === 'table' ? this.formatTable(vaultMapping, notes, query.columns) : this.formatList(vaultMapping, notes);
+		await MarkdownRenderer.render(this.plugin.app, markdown, containerEl.createDiv({ cls: 'markdown-rendered' }), this.sourcePath, renderComponent);
+	}
+
+	private formatLink(vaultMapping: VaultMapping, indexed: IndexedFile): string {
+		return this.plugin.formatVaultFileLink({ vault: vaultMapping, path: indexed.path.replace(/\.md$/, ''), basename: indexed.basename }, 'link');
+	}
+
+	private formatList(vaultMapping: VaultMapping, notes: IndexedFile[]): string {
+		return notes.map(indexed => `- ${this.formatLink(vaultMapping, indexed)}`).join('\n');
+	}
+
+	private formatTable(vaultMapping: VaultMapping, notes: IndexedFile[], columns: string[]): string {
+		const rows = [
+			`| Note |${columns.map(column => ` ${this.escapeCell(column)} |`).join('')}`,
+			`| --- |${columns.map(() => ' --- |').join('')}`
+		];
+		notes.forEach(indexed => {
+			const cells = columns.map(column => ` ${this.formatCell(vaultMapping, indexed, column)} |`).join('');
+			rows.push(`| ${this.formatLink(vaultMapping, indexed)} |${cells}`);
+		});
+		return rows.join('\n');
+	}
+
+	// Frontmatter comes first; modified, folder and tags fill in for notes without such a field
+	private formatCell(vaultMapping: VaultMapping, indexed: IndexedFile, column: string): string {
+		const key = findFrontmatterKey(indexed.frontmatter, column);
+		let value: unknown = key === undefined ? undefined : indexed.frontmatter[key];
+		if (value === undefined) {
+			const lowerColumn = column.toLowerCase();
+			if (lowerColumn === 'modified') {
+				const date = new Date(indexed.mtime);
+				value = `${date.getFullYear()}-${`0${date.getMonth() + 1}`.slice(-2)}-${`0${date.getDate()}`.slice(-2)}`;
+			} else if (lowerColumn === 'folder') {
+				value = indexed.path.indexOf('/') === -1 ? '' : indexed.path.substring(0, indexed.path.lastIndexOf('/'));
+			} else if (lowerColumn === 'tags') {
+				value = indexed.tags.map(tag => `#${tag}`);
+			}
+		}
+		if (value === null || value === undefined) return '';
+
+		const text = (Array.isArray(value) ? value : [value])
+			.filter(item => item !== null && item !== undefined)
+			.map(item => formatFrontmatterValue(item))
+			.join(', ');
+		// [[links]] in frontmatter point into the note's own vault
+		return this.escapeCell(text.replace(/\[\[(?![^\]]*::)/g, `[[${vaultMapping.name}::`));
+	}
+
+	private escapeCell(text: string): string {
+		return text.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+	}
+
+	private renderError(message: string) {
+		this.containerEl.createDiv({ cls: 'cross-vault-error', text: message });
+	}
+
+	// Bursts of changes are batched before re-rendering
+	private scheduleRender() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, 300);
+	}
+}
+
+class ConfirmModal extends Modal {
+	private title: string;
+	private message: string;
+	private confirmText: string;
+	private resolve: ((confirmed: boolean) => void) | null = null;
+
+	constructor(app: App, title: string, message: string, confirmText: string) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+	}
+
+	// Resolves with false when the modal is dismissed
+	ask(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', { text: this.message });
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'space-between';
+		buttonContainer.style.marginTop = '20px';
+
+		const confirmButton = buttonContainer.createEl('button', { text: this.confirmText });
+		confirmButton.style.backgroundColor = 'var(--interactive-accent)';
+		confirmButton.style.color = 'var(--text-on-accent)';
+		confirmButton.addEventListener('click', () => {
+			this.settle(true);
+			this.close();
+		});
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.settle(false);
+	}
+
+	private settle(confirmed: boolean) {
+		if (this.resolve) {
+			this.resolve(confirmed);
+			this.resolve = null;
+		}
+	}
+}
+
+class LinkRewriteModal extends Modal {
+	private plugin: CrossVaultPlugin;
+	private title: string;
+	private description: string;
+	private rewrites: LinkRewrite[];
+	private selected: Set<LinkRewrite>;
+	private onApplied?: () => void;
+
+	constructor(app: App, plugin: CrossVaultPlugin, title: string, description: string, rewrites: LinkRewrite[], onApplied?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.title = title;
+		this.description = description;
+		this.rewrites = rewrites;
+		this.selected = new Set(rewrites);
+		this.onApplied = onApplied;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.title });
+		contentEl.createEl('p', { text: this.description });
+
+		const listEl = contentEl.createDiv({ cls: 'cross-vault-rewrite-list' });
+		const sources = this.rewrites.map(rewrite => rewrite.source).filter((source, index, all) => all.indexOf(source) === index);
+		sources.forEach(source => {
+			listEl.createDiv({ cls: 'cross-vault-rewrite-source', text: source.path });
+
+			this.rewrites.filter(rewrite => rewrite.source === source).forEach(rewrite => {
+				const itemEl = listEl.createEl('label', { cls: 'cross-vault-rewrite-item' });
+				const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+				checkbox.checked = true;
+				checkbox.addEventListener('change', () => {
+					if (checkbox.checked) {
+						this.selected.add(rewrite);
+					} else {
+						this.selected.delete(rewrite);
+					}
+				});
+
+				const changeEl = itemEl.createDiv({ cls: 'cross-vault-rewrite-change' });
+				changeEl.createSpan({ cls: 'cross-vault-rewrite-line', text: `Line ${rewrite.line + 1}` });
+				changeEl.createEl('code', { cls: 'cross-vault-rewrite-before', text: rewrite.before });
+				changeEl.createEl('code', { cls: 'cross-vault-rewrite-after', text: rewrite.after });
+			});
+		});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'space-between';
+		buttonContainer.style.marginTop = '20px';
+
+		const applyButton = buttonContainer.createEl('button', { text: 'Rewrite Links' });
+		applyButton.style.backgroundColor = 'var(--interactive-accent)';
+		applyButton.style.color = 'var(--text-on-accent)';
+		applyButton.addEventListener('click', () => this.apply());
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	async apply() {
+		const selected = this.rewrites.filter(rewrite => this.selected.has(rewrite));
+		if (selected.length === 0) {
+			new Notice('No links selected');
+			return;
+		}
+
+		const count = await this.plugin.applyLinkRewrites(selected);
+		new Notice(`Rewrote ${count} cross-vault link${count === 1 ? '' : 's'}`);
+		this.close();
+		if (this.onApplied) {
+			this.onApplied();
+		}
+	}
+}
+
+type MergeChoice = 'local' | 'source' | 'both';
+
+class WriteBackMergeModal extends Modal {
+	private cache: LocalCache;
+	private entry: CacheEntry;
+	private chunks: MergeChunk[];
+	private choices: MergeChoice[];
+	private onClosed: () => void;
+
+	constructor(app: App, cache: LocalCache, entry: CacheEntry, chunks: MergeChunk[], onClosed: () => void) {
+		super(app);
+		this.cache = cache;
+		this.entry = entry;
+		this.chunks = chunks;
+		this.choices = chunks.map(() => 'local');
+		this.onClosed = onClosed;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const conflicts = this.chunks.filter(chunk => chunk.conflict).length;
+		contentEl.createEl('h2', { text: 'Merge Changes' });
+		contentEl.createEl('p', {
+			text: `${this.entry.localPath} and ${this.entry.vault}/${this.entry.sourcePath} have both changed since the note was cached. ` +
+				(conflicts > 0
+					? `Changes that do not overlap are merged automatically. Choose a version for each of the ${conflicts} conflicting section${conflicts === 1 ? '' : 's'}.`
+					: 'The changes do not overlap and can be merged automatically.')
+		});
+
+		const listEl = contentEl.createDiv({ cls: 'cross-vault-merge-list' });
+		this.chunks.forEach((chunk, index) => {
+			if (!chunk.conflict) return;
+
+			const conflictEl = listEl.createDiv({ cls: 'cross-vault-merge-conflict' });
+			const columnsEl = conflictEl.createDiv({ cls: 'cross-vault-merge-columns' });
+			const addColumn = (title: string, lines: string[]) => {
+				const columnEl = columnsEl.createDiv({ cls: 'cross-vault-merge-column' });
+				columnEl.createDiv({ cls: 'cross-vault-merge-column-title', text: title });
+				columnEl.createEl('pre', { text: lines.join('\n') });
+			};
+			addColumn('Cached copy', chunk.conflict.local);
+			addColumn('Last synced', chunk.conflict.base);
+			addColumn(this.entry.vault, chunk.conflict.source);
+
+			const select = conflictEl.createEl('select', { cls: 'dropdown' });
+			select.createEl('option', { value: 'local', text: 'Keep cached copy' });
+			select.createEl('option', { value: 'source', text: `Keep ${this.entry.vault}` });
+			select.createEl('option', { value: 'both', text: 'Keep both' });
+			select.addEventListener('change', () => {
+				this.choices[index] = select.value as MergeChoice;
+			});
+		});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'space-between';
+		buttonContainer.style.marginTop = '20px';
+
+		const saveButton = buttonContainer.createEl('button', { text: 'Save Merge' });
+		saveButton.style.backgroundColor = 'var(--interactive-accent)';
+		saveButton.style.color = 'var(--text-on-accent)';
+		saveButton.addEventListener('click', async () => {
+			this.close();
+			await this.cache.resolveMerge(this.entry, this.getMergedContent());
+		});
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onClosed();
+	}
+
+	private getMergedContent(): string {
+		const lines: string[] = [];
+		this.chunks.forEach((chunk, index) => {
+			if (!chunk.conflict) {
+				lines.push(...chunk.lines);
+			} else if (this.choices[index] === 'local') {
+				lines.push(...chunk.conflict.local);
+			} else if (this.choices[index] === 'source') {
+				lines.push(...chunk.conflict.source);
+			} else {
+				lines.push(...chunk.conflict.local, ...chunk.conflict.source);
+			}
+		});
+		return lines.join('\n');
+	}
+}
+
+interface KnownVault {
+	id: string;
+	name: string;
+	path: string;
+}
+
+// Where Obsidian keeps its global config, including the registry of every vault opened on this device
+function getObsidianConfigPaths(): string[] {
+	const home = os.homedir();
+	if (process.platform === 'win32') {
+		return [path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'obsidian', 'obsidian.json')];
+	}
+	if (process.platform === 'darwin') {
+		return [path.join(home, 'Library', 'Application Support', 'obsidian', 'obsidian.json')];
+	}
+	// Flatpak and Snap installs keep their config in a sandbox
+	return [
+		path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), 'obsidian', 'obsidian.json'),
+		path.join(home, '.var', 'app', 'md.obsidian.Obsidian', 'config', 'obsidian', 'obsidian.json'),
+		path.join(home, 'snap', 'obsidian', 'current', '.config', 'obsidian', 'obsidian.json')
+	];
+}
+
+// Obsidian names a vault after its folder, so that is the name used in obsidian:// URLs
+async function readKnownVaults(): Promise<KnownVault[]> {
+	for (const configPath of getObsidianConfigPaths()) {
+		let config: { vaults?: Record<string, { path?: unknown }> };
+		try {
+			config = JSON.parse(await fs.promises.readFile(configPath, 'utf8'));
+		} catch (error) {
+			continue;
+		}
+
+		const vaults = config.vaults || {};
+		return Object.keys(vaults)
+			.filter(id => typeof vaults[id].path === 'string')
+			.map(id => {
+				const vaultPath = vaults[id].path as string;
+				return { id, name: path.basename(vaultPath), path: vaultPath };
+			})
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+	return [];
+}
+
+class VaultMappingModal extends Modal {
+	plugin: CrossVaultPlugin;
+	parsedUrl: ObsidianUrl;
+	nameInput!: HTMLInputElement;
+	pathInput!: HTMLInputElement;
+	cacheCheckbox!: HTMLInputElement;
+
+	constructor(app: App, plugin: CrossVaultPlugin, parsedUrl: ObsidianUrl) {
+		super(app);
+		this.plugin = plugin;
+		this.parsedUrl = parsedUrl;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		
+		contentEl.createEl('h2', { text: 'Map Vault' });
+		
+		// Vault Name
+		contentEl.createEl('label', { text: 'Vault Name:' });
+		this.nameInput = contentEl.createEl('input', { type: 'text', value: this.parsedUrl.vault });
+		this.nameInput.style.width = '100%';
+		this.nameInput.style.marginBottom = '10px';
+		
+		// Vault Path
+		contentEl.createEl('label', { text: 'Vault Path:' });
+		this.pathInput = contentEl.createEl('input', { type: 'text', placeholder: 'Enter the full path to the vault directory' });
+		this.pathInput.style.width = '100%';
+		this.pathInput.style.marginBottom = '10px';
+
+		// Vaults Obsidian already knows about need no typing
+		this.plugin.getKnownVaults().then(vaults => {
+			const known = vaults.find(vault => vault.name === this.parsedUrl.vault);
+			if (known && !this.pathInput.value) {
+				this.pathInput.value = known.path;
+			}
+		});
+		
+		// Local Cache Option
+		const cacheContainer = contentEl.createDiv();
+		cacheContainer.style.marginBottom = '20px';
+		this.cacheCheckbox = cacheContainer.createEl('input', { type: 'checkbox' });
+		cacheContainer.createEl('label', { text: ' Enable Local Cache' });
+		cacheContainer.prepend(this.cacheCheckbox);
+		
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'space-between';
+		buttonContainer.style.marginTop = '20px';
+		
+		const saveButton = buttonContainer.createEl('button', { text: 'Save' });
+		saveButton.style.backgroundColor = 'var(--interactive-accent)';
+		saveButton.style.color = 'var(--text-on-accent)';
+		saveButton.addEventListener('click', () => this.save());
+		
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		
+		// Focus on path input
+		this.pathInput.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	save() {
+		const name = this.nameInput.value.trim();
+		const path = this.pathInput.value.trim();
+		
+		if (!name || !path) {
+			new Notice('Please enter both vault name and path');
+			return;
+		}
+
+		const clash = this.plugin.findNameClash(null, name);
+		if (clash) {
+			new Notice(`${name} is already used by the ${clash.name} mapping`);
+			return;
+		}
+		
+		const mapping: VaultMapping = {
+			name,
+			path,
+			enableLocalCache: this.cacheCheckbox.checked
+		};
+		
+		this.plugin.addVaultMapping(mapping);
+		new Notice(`Vault "${name}" mapped successfully`);
+		this.close();
+	}
+}
+
+// Zip mappings point at a file, every other local mapping at a folder
+function getBrowseDialogOptions(type?: VaultMappingType): Record<string, unknown> {
+	return type === 'zip'
+		? { properties: ['openFile'], filters: [{ name: 'Zip archives', extensions: ['zip'] }] }
+		: { properties: ['openDirectory'] };
+}
+
+class AddVaultModal extends Modal {
+	plugin: CrossVaultPlugin;
+	callback: () => void;
+	nameInput!: HTMLInputElement;
+	typeSelect!: HTMLSelectElement;
+	pathInput!: HTMLInputElement;
+	usernameInput!: HTMLInputElement;
+	passwordInput!: HTMLInputElement;
+	refInput!: HTMLInputElement;
+	cacheCheckbox!: HTMLInputElement;
+
+	constructor(app: App, plugin: CrossVaultPlugin, callback: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.callback = callback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		
+		contentEl.createEl('h2', { text: 'Add New Vault' });
+		
+		// Vault Name
+		contentEl.createEl('label', { text: 'Vault Name:' });
+		this.nameInput = contentEl.createEl('input', { type: 'text', placeholder: 'Enter vault name' });
+		this.nameInput.style.width = '100%';
+		this.nameInput.style.marginBottom = '10px';
+
+		// Location Type
+		contentEl.createEl('label', { text: 'Location:' });
+		this.typeSelect = contentEl.createEl('select', { cls: 'dropdown' });
+		this.typeSelect.createEl('option', { value: 'local', text: 'Folder on this computer' });
+		this.typeSelect.createEl('option', { value: 'http', text: 'HTTP / WebDAV server' });
+		this.typeSelect.createEl('option', { value: 'git', text: 'Git repository' });
+		this.typeSelect.createEl('option', { value: 'zip', text: 'Zip archive' });
+		this.typeSelect.style.display = 'block';
+		this.typeSelect.style.marginBottom = '10px';
+		
+		// Vault Path with Browse Button
+		const pathLabel = contentEl.createEl('label', { text: 'Vault Path:' });
+		const pathContainer = contentEl.createDiv();
+		pathContainer.style.display = 'flex';
+		pathContainer.style.gap = '10px';
+		pathContainer.style.marginBottom = '10px';
+
+		this.pathInput = pathContainer.createEl('input', { type: 'text', placeholder: 'Enter the full path to the vault directory' });
+		this.pathInput.style.flex = '1';
+
+		const browseButton = pathContainer.createEl('button', { text: 'Browse', cls: 'browse-button' });
+		browseButton.addEventListener('click', async () => {
+			try {
+				// @ts-ignore - showOpenDialog is available but not typed
+				const result = await window.electron.remote.dialog.showOpenDialog(getBrowseDialogOptions(this.typeSelect.value as VaultMappingType));
+				
+				if (!result.canceled && result.filePaths.length > 0) {
+					this.pathInput.value = result.filePaths[0];
+				}
+			} catch (error) {
+				console.error('Error opening file dialog:', error);
+				new Notice('Could not open file browser. Please enter path manually.');
+			}
+		});
+
+		// Credentials for HTTP servers
+		const credentialsContainer = contentEl.createDiv();
+		credentialsContainer.style.display = 'flex';
+		credentialsContainer.style.gap = '10px';
+		credentialsContainer.style.marginBottom = '10px';
+		this.usernameInput = credentialsContainer.createEl('input', { type: 'text', placeholder: 'Username (optional)' });
+		this.usernameInput.style.flex = '1';
+		this.passwordInput = credentialsContainer.createEl('input', { type: 'password', placeholder: 'Password' });
+		this.passwordInput.style.flex = '1';
+		this.passwordInput.title = PLAINTEXT_PASSWORD_WARNING;
+
+		// Revision for git repositories
+		this.refInput = contentEl.createEl('input', { type: 'text', placeholder: 'Branch, tag or commit (default: HEAD)' });
+		this.refInput.style.width = '100%';
+		this.refInput.style.marginBottom = '10px';
+
+		const updateType = () => {
+			const isHttp = this.typeSelect.value === 'http';
+			const isZip = this.typeSelect.value === 'zip';
+			pathLabel.setText(isHttp ? 'Base URL:' : (isZip ? 'Archive Path:' : 'Vault Path:'));
+			this.pathInput.placeholder = isHttp ? 'https://example.com/vaults/team/' : (isZip ? 'Enter the full path to the .zip file' : 'Enter the full path to the vault directory');
+			browseButton.toggle(!isHttp);
+			credentialsContainer.toggle(isHttp);
+			this.refInput.toggle(this.typeSelect.value === 'git');
+		};
+		this.typeSelect.addEventListener('change', updateType);
+		updateType();
+		
+		// Local Cache Option
+		const cacheContainer = contentEl.createDiv();
+		cacheContainer.style.marginBottom = '20px';
+		this.cacheCheckbox = cacheContainer.createEl('input', { type: 'checkbox' });
+		cacheContainer.createEl('label', { text: ' Enable Local Cache' });
+		cacheContainer.prepend(this.cacheCheckbox);
+		
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'space-between';
+		buttonContainer.style.marginTop = '20px';
+		
+		const saveButton = buttonContainer.createEl('button', { text: 'Add Vault' });
+		saveButton.style.backgroundColor = 'var(--interactive-accent)';
+		saveButton.style.color = 'var(--text-on-accent)';
+		saveButton.addEventListener('click', () => this.save());
+		
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		
+		// Focus on name input
+		this.nameInput.focus();
+		
+		// Handle Enter key
+		this.nameInput.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') {
+				this.pathInput.focus();
+			}
+		});
+		
+		this.pathInput.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') {
+				this.save();
+			}
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	save() {
+		const name = this.nameInput.value.trim();
+		const path = this.pathInput.value.trim();
+		
+		if (!name || !path) {
+			new Notice('Please enter both vault name and path');
+			return;
+		}
+
+		const clash = this.plugin.findNameClash(null, name);
+		if (clash) {
+			new Notice(`${name} is already used by the ${clash.name} mapping`);
+			return;
+		}
+		
+		const mapping: VaultMapping = {
+			name,
+			path,
+			enableLocalCache: this.cacheCheckbox.checked
+		};
+		if (this.typeSelect.value === 'http') {
+			mapping.type = 'http';
+			mapping.username = this.usernameInput.value.trim() || undefined;
+			mapping.password = this.passwordInput.value || undefined;
+		} else if (this.typeSelect.value === 'git') {
+			mapping.type = 'git';
+			mapping.ref = this.refInput.value.trim() || undefined;
+		} else if (this.typeSelect.value === 'zip') {
+			mapping.type = 'zip';
+		}
+		
+		this.plugin.addVaultMapping(mapping);
+		new Notice(`Vault "${name}" added successfully`);
+		this.callback(); // Refresh the settings display
+		this.close();
+	}
+}
+
+class ImportVaultsModal extends Modal {
+	plugin: CrossVaultPlugin;
+	vaults: KnownVault[];
+	callback: () => void;
+	private selected = new Set<KnownVault>();
+
+	constructor(app: App, plugin: CrossVaultPlugin, vaults: KnownVault[], callback: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.vaults = vaults;
+		this.callback = callback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Import Known Vaults' });
+		contentEl.createEl('p', { text: 'These vaults have been opened in Obsidian on this computer. Select the ones to map.' });
+
+		const listEl = contentEl.createDiv({ cls: 'cross-vault-import-list' });
+		this.vaults.forEach(vault => {
+			const mapped = this.plugin.getVaultMapping(vault.name) || this.plugin.findMappingForFolder(vault.path);
+
+			const rowEl = listEl.createEl('label', { cls: 'cross-vault-import-vault' });
+			const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = !mapped;
+			checkbox.disabled = !!mapped;
+			if (!mapped) {
+				this.selected.add(vault);
+			}
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(vault);
+				} else {
+					this.selected.delete(vault);
+				}
+			});
+
+			const textEl = rowEl.createDiv();
+			textEl.createDiv({ cls: 'cross-vault-import-name', text: mapped ? `${vault.name} (mapped as ${mapped.name})` : vault.name });
+			textEl.createDiv({ cls: 'cross-vault-import-path', text: vault.path });
+		});
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'space-between';
+		buttonContainer.style.marginTop = '20px';
+
+		const importButton = buttonContainer.createEl('button', { text: 'Import Selected' });
+		importButton.style.backgroundColor = 'var(--interactive-accent)';
+		importButton.style.color = 'var(--text-on-accent)';
+		importButton.addEventListener('click', () => this.import());
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	async import() {
+		if (this.selected.size === 0) {
+			new Notice('No vaults selected');
+			return;
+		}
+
+		// Vaults in folders with the same name get a numbered suffix, so every mapping keeps a name of its own
+		const renamed: string[] = [];
+		this.selected.forEach(vault => {
+			let name = vault.name;
+			for (let suffix = 2; this.plugin.getVaultMapping(name); suffix++) {
+				name = `${vault.name} ${suffix}`;
+			}
+			if (name !== vault.name) {
+				renamed.push(`${vault.path} as ${name}`);
+			}
+			this.plugin.settings.vaultMappings.push({ name, path: vault.path, enableLocalCache: false });
+		});
+		await this.plugin.saveSettings();
+
+		const renamedText = renamed.length > 0 ? `. Names already in use, mapped ${renamed.join(', ')}` : '';
+		new Notice(`Imported ${this.selected.size} vault${this.selected.size === 1 ? '' : 's'}${renamedText}`);
+		this.close();
+		this.callback();
+	}
+}
+
+class CrossVaultDisplayWidget extends WidgetType {
+	constructor(
+		private text: string,
+		private plugin: CrossVaultPlugin,
+		private parsedUrl: ObsidianUrl,
+		private vaultMapping: VaultMapping | null
+	) {
+		super();
+	}
+
+	toDOM() {
+		const span = document.createElement('span');
+		span.className = 'cross-vault-link';
+		span.textContent = this.text;
+
+		if (this.vaultMapping && this.parsedUrl.action) {
+			span.title = this.plugin.getActionIndicator(this.parsedUrl).title;
+			span.addEventListener('click', (e) => {
+				e.preventDefault();
+				this.plugin.followActionLink(this.vaultMapping!, this.parsedUrl);
+			});
+		} else if (this.vaultMapping) {
+			span.title = `Click to open in ${this.vaultMapping.name} vault`;
+			
+			// Handle hover
+			span.addEventListener('mouseenter', async () => {
+				const fileContent = await this.plugin.getFileFromVault(this.vaultMapping!, this.parsedUrl.file, this.parsedUrl.ref);
+				if (fileContent) {
+					const revision = await this.plugin.getRevisionLabel(this.vaultMapping!, this.parsedUrl.ref);
+					this.plugin.showPreview(span, this.vaultMapping!, this.parsedUrl.file, fileContent, this.parsedUrl.subpath, revision, this.parsedUrl.ref);
+				}
+			});
+
+			// Handle click
+			span.addEventListener('click', async (e) => {
+				e.preventDefault();
+				const fileContent = await this.plugin.getFileFromVault(this.vaultMapping!, this.parsedUrl.file, this.parsedUrl.ref);
+				if (fileContent) {
+					this.plugin.openCrossVaultFile(this.vaultMapping!, this.parsedUrl.file, fileContent, this.parsedUrl.subpath, this.parsedUrl.ref);
+				}
+			});
+		} else {
+			span.title = `Vault "${this.parsedUrl.vault}" not mapped. Click to map.`;
+			span.addEventListener('click', (e) => {
+				e.preventDefault();
+				this.plugin.showVaultMappingDialog(this.parsedUrl);
+			});
+		}
+
+		return span;
+	}
+}
+
+class CrossVaultEmbedWidget extends WidgetType {
+	private embeds = new Map<HTMLElement, CrossVaultEmbed>();
+
+	constructor(private plugin: CrossVaultPlugin, private parsedUrl: ObsidianUrl) {
+		super();
+	}
+
+	eq(other: CrossVaultEmbedWidget) {
+		return other.parsedUrl.originalUrl === this.parsedUrl.originalUrl;
+	}
+
+	toDOM() {
+		const div = document.createElement('div');
+		const embed = new CrossVaultEmbed(div, this.plugin, this.parsedUrl);
+		this.embeds.set(div, embed);
+		embed.load();
+		return div;
+	}
+
+	destroy(dom: HTMLElement) {
+		const embed = this.embeds.get(dom);
+		if (embed) {
+			embed.unload();
+			this.embeds.delete(dom);
+		}
+	}
+}
+
+class CrossVaultLinkWidget extends WidgetType {
+	plugin: CrossVaultPlugin;
+	parsedUrl: ObsidianUrl;
+	vaultMapping: VaultMapping | null;
+
+	constructor(plugin: CrossVaultPlugin, parsedUrl: ObsidianUrl, vaultMapping: VaultMapping | null) {
+		super();
+		this.plugin = plugin;
+		this.parsedUrl = parsedUrl;
+		this.vaultMapping = vaultMapping;
+	}
+
+	toDOM() {
+		const span = document.createElement('span');
+		span.className = 'cross-vault-widget';
+
+		if (!this.vaultMapping) {
+			span.className += ' cross-vault-error';
+			span.textContent = '?';
+			span.title = `Vault "${this.parsedUrl.vault}" not mapped. Click to map.`;
+			span.addEventListener('click', () => {
+				(this.plugin as any).showVaultMappingDialog(this.parsedUrl);
+			});
+		} else if (this.parsedUrl.action) {
+			const indicator = this.plugin.getActionIndicator(this.parsedUrl);
+			span.className += ' cross-vault-action';
+			span.textContent = indicator.text;
+			span.title = indicator.title;
+		} else {
+			span.textContent = '✓';
+			span.title = `Linked to: ${this.vaultMapping.path}`;
+			this.checkTarget(span, this.vaultMapping);
+		}
+
+		return span;
+	}
+
+	// Downgrade the optimistic status once the file and its heading or block have been checked
+	private async checkTarget(span: HTMLElement, vaultMapping: VaultMapping) {
+		const fileContent = await this.plugin.getFileFromVault(vaultMapping, this.parsedUrl.file, this.parsedUrl.ref);
+		if (!fileContent) {
+			span.className = 'cross-vault-widget cross-vault-error';
+			span.textContent = '✗';
+			span.title = 'File not found';
+		} else if (this.parsedUrl.subpath && extractSubpath(fileContent, this.parsedUrl.subpath) === null) {
+			span.className = 'cross-vault-widget cross-vault-warning';
+			span.textContent = '#';
+			span.title = this.plugin.getMissingSubpathMessage(this.parsedUrl);
+		} else if (this.plugin.localCache.getStatus(vaultMapping, this.parsedUrl.file, fileContent, this.parsedUrl.ref) === 'stale') {
+			span.className = 'cross-vault-widget cross-vault-stale';
+			span.textContent = '⟳';
+			span.title = STALE_CACHE_MESSAGE;
+		}
+	}
+}
+
+class CrossVaultSettingTab extends PluginSettingTab {
+	plugin: CrossVaultPlugin;
+
+	constructor(app: App, plugin: CrossVaultPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+		containerEl.className = 'cross-vault-settings';
+
+		containerEl.createEl('h2', { text: 'Cross Vault Navigator Settings' });
+
+		containerEl.createEl('h3', { text: 'Vault Mappings' });
+		
+		const mappingsContainer = containerEl.createDiv();
+		this.displayVaultMappings(mappingsContainer);
+
+		new Setting(containerEl)
+			.setName('Add New Vault')
+			.setDesc('Map a new vault for cross-vault linking, or import the vaults Obsidian knows about')
+			.addButton(button => {
+				button.setButtonText('Add Vault')
+					.setClass('add-vault-button')
+					.onClick(() => {
+						this.showAddVaultDialog();
+					});
+			})
+			.addButton(button => {
+				button.setButtonText('Import Known Vaults')
+					.setTooltip('Propose mappings for the vaults opened in Obsidian on this computer')
+					.onClick(() => {
+						this.showImportVaultsDialog();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Open Links In')
+			.setDesc('Where notes from mapped vaults open when a link is clicked')
+			.addDropdown(dropdown => {
+				dropdown.addOption('default', 'Cached copy, or the other vault')
+					.addOption('viewer', 'Read-only tab in this vault')
+					.setValue(this.plugin.settings.openLinksIn)
+					.onChange(async (value) => {
+						this.plugin.settings.openLinksIn = value as OpenLinksIn;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Link Display Template')
+			.setDesc('How links to notes in mapped vaults are shown and labelled when inserted. Tokens: {vault}, {title} (frontmatter title, first alias or file name), {basename}, {heading} and {folder}. A mapping can set its own template.')
+			.addText(text => {
+				text.setPlaceholder(DEFAULT_SETTINGS.displayTemplate)
+					.setValue(this.plugin.settings.displayTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.displayTemplate = value.trim() || DEFAULT_SETTINGS.displayTemplate;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		containerEl.createEl('h3', { text: 'Link Maintenance' });
+
+		new Setting(containerEl)
+			.setName('Follow Moved Notes')
+			.setDesc('When a note is moved inside a mapped vault, offer to rewrite the links to it in this vault')
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.followExternalMoves)
+					.onChange(async (value) => {
+						this.plugin.settings.followExternalMoves = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		containerEl.createEl('h3', { text: 'Local Cache' });
+
+		new Setting(containerEl)
+			.setName('Cache Folder')
+			.setDesc('Folder in this vault where notes from vaults with local cache enabled are copied')
+			.addText(text => {
+				text.setValue(this.plugin.settings.cacheFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.cacheFolder = normalizePath(value.trim() || DEFAULT_SETTINGS.cacheFolder);
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	private displayVaultMappings(container: HTMLElement) {
+		container.empty();
+		
+		this.plugin.settings.vaultMappings.forEach((mapping, index) => {
+			const mappingDiv = container.createDiv({ cls: 'vault-mapping' });
+			
+			const nameInput = mappingDiv.createEl('input', { type: 'text', value: mapping.name });
+			nameInput.placeholder = 'Vault Name';
+			nameInput.addEventListener('blur', async () => {
+				const name = nameInput.value.trim();
+				if (!name || name === mapping.name) {
+					nameInput.value = mapping.name;
+					return;
+				}
+
+				const previous = mapping.name;
+				try {
+					await this.plugin.renameVaultMapping(mapping, name);
+				} catch (error) {
+					new Notice(`Cannot rename vault: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					nameInput.value = mapping.name;
+					return;
+				}
+				new Notice(`Renamed ${previous} to ${name}. Run "Update Links to Renamed Vaults" to rewrite links that use the old name`);
+				this.display(); // Show the old name among the aliases
+			});
+
+			const aliasesInput = mappingDiv.createEl('input', { type: 'text', value: (mapping.aliases || []).join(', ') });
+			aliasesInput.placeholder = 'Aliases (optional)';
+			aliasesInput.title = 'Other names links may use for this vault, separated by commas';
+			aliasesInput.addEventListener('blur', () => {
+				const aliases: string[] = [];
+				aliasesInput.value.split(',').map(alias => alias.trim()).forEach(alias => {
+					if (!alias || alias.toLowerCase() === mapping.name.toLowerCase() || aliases.some(other => other.toLowerCase() === alias.toLowerCase())) return;
+
+					const clash = this.plugin.findNameClash(mapping, alias);
+					if (clash) {
+						new Notice(`Alias ${alias} is already used by the ${clash.name} mapping`);
+					} else {
+						aliases.push(alias);
+					}
+				});
+
+				mapping.aliases = aliases.length > 0 ? aliases : undefined;
+				aliasesInput.value = aliases.join(', ');
+				this.plugin.saveSettings();
+			});
+
+			const typeSelect = mappingDiv.createEl('select', { cls: 'dropdown' });
+			typeSelect.createEl('option', { value: 'local', text: 'Folder' });
+			typeSelect.createEl('option', { value: 'http', text: 'HTTP / WebDAV' });
+			typeSelect.createEl('option', { value: 'git', text: 'Git' });
+			typeSelect.createEl('option', { value: 'zip', text: 'Zip' });
+			typeSelect.value = mapping.type || 'local';
+			typeSelect.addEventListener('change', async () => {
+				mapping.type = typeSelect.value as VaultMappingType;
+				await this.plugin.saveSettings();
+				this.display(); // Show the fields for the new type
+			});
+			
+			const pathInput = mappingDiv.createEl('input', { type: 'text', value: mapping.path });
+			pathInput.placeholder = mapping.type === 'http' ? 'Base URL' : (mapping.type === 'zip' ? 'Archive Path' : 'Vault Path');
+			const showResolvedPath = () => {
+				pathInput.title = `Resolves to: ${this.plugin.resolveVaultMapping(mapping).path}`;
+			};
+			showResolvedPath();
+			pathInput.addEventListener('blur', () => {
+				mapping.path = pathInput.value;
+				showResolvedPath();
+				this.plugin.saveSettings();
+			});
+
+			const deviceName = getDeviceName();
+			const overrideInput = mappingDiv.createEl('input', { type: 'text', value: (mapping.pathOverrides || {})[deviceName] || '' });
+			overrideInput.placeholder = `Path on ${deviceName} (optional)`;
+			overrideInput.title = `Used instead of the path above on ${deviceName}`;
+			const setOverride = (value: string) => {
+				const overrides = mapping.pathOverrides || {};
+				if (value) {
+					overrides[deviceName] = value;
+				} else {
+					delete overrides[deviceName];
+				}
+				mapping.pathOverrides = Object.keys(overrides).length > 0 ? overrides : undefined;
+				showResolvedPath();
+				this.plugin.saveSettings();
+			};
+			overrideInput.addEventListener('blur', () => setOverride(overrideInput.value.trim()));
+
+			if (mapping.type === 'http') {
+				const usernameInput = mappingDiv.createEl('input', { type: 'text', value: mapping.username || '' });
+				usernameInput.placeholder = 'Username (optional)';
+				usernameInput.addEventListener('blur', () => {
+					mapping.username = usernameInput.value.trim() || undefined;
+					this.plugin.saveSettings();
+				});
+
+				const passwordInput = mappingDiv.createEl('input', { type: 'password', value: mapping.password || '' });
+				passwordInput.placeholder = 'Password';
+				passwordInput.title = PLAINTEXT_PASSWORD_WARNING;
+				passwordInput.addEventListener('blur', () => {
+					mapping.password = passwordInput.value || undefined;
+					this.plugin.saveSettings();
+				});
+			}
+
+			if (mapping.type === 'git') {
+				const refInput = mappingDiv.createEl('input', { type: 'text', value: mapping.ref || '' });
+				refInput.placeholder = 'Branch, tag or commit (HEAD)';
+				refInput.addEventListener('blur', () => {
+					mapping.ref = refInput.value.trim() || undefined;
+					this.plugin.saveSettings();
+				});
+			}
+			
+			const browseButton = mappingDiv.createEl('button', { text: 'Browse', cls: 'browse-button' });
+			browseButton.toggle(mapping.type !== 'http');
+			browseButton.addEventListener('click', async () => {
+				try {
+					// @ts-ignore - showOpenDialog is available but not typed
+					const result = await window.electron.remote.dialog.showOpenDialog(getBrowseDialogOptions(mapping.type));
+					
+					if (!result.canceled && result.filePaths.length > 0) {
+						// A device with its own override keeps the shared path untouched
+						if (overrideInput.value.trim()) {
+							overrideInput.value = result.filePaths[0];
+							setOverride(result.filePaths[0]);
+						} else {
+							pathInput.value = result.filePaths[0];
+							mapping.path = result.filePaths[0];
+							showResolvedPath();
+							this.plugin.saveSettings();
+						}
+					}
+				} catch (error) {
+					console.error('Error opening file dialog:', error);
+					new Notice('Could not open file browser. Please enter path manually.');
+				}
+			});
+			
+			const templateInput = mappingDiv.createEl('input', { type: 'text', value: mapping.displayTemplate || '' });
+			templateInput.placeholder = `Display template (${this.plugin.settings.displayTemplate})`;
+			templateInput.title = 'Replaces the global link display template for this vault';
+			templateInput.addEventListener('blur', () => {
+				mapping.displayTemplate = templateInput.value.trim() || undefined;
+				this.plugin.saveSettings();
+			});
+
+			const cacheCheckbox = mappingDiv.createEl('input', { type: 'checkbox' });
+			cacheCheckbox.checked = mapping.enableLocalCache;
+			cacheCheckbox.addEventListener('change', () => {
+				mapping.enableLocalCache = cacheCheckbox.checked;
+				this.plugin.saveSettings();
+			});
+			
+			const cacheLabel = mappingDiv.createEl('label', { text: 'Enable Local Cache' });
+			cacheLabel.prepend(cacheCheckbox);
+
+			const writeBackCheckbox = mappingDiv.createEl('input', { type: 'checkbox' });
+			writeBackCheckbox.checked = !!mapping.enableWriteBack;
+			writeBackCheckbox.addEventListener('change', () => {
+				mapping.enableWriteBack = writeBackCheckbox.checked;
+				this.plugin.saveSettings();
+			});
+
+			const writeBackLabel = mappingDiv.createEl('label', { text: 'Write Back Edits' });
+			writeBackLabel.title = 'Save edits of cached copies back to this vault';
+			writeBackLabel.prepend(writeBackCheckbox);
+			writeBackLabel.toggle(mapping.type !== 'git' && mapping.type !== 'zip');
+			
+			const deleteButton = mappingDiv.createEl('button', { text: 'Delete' });
+			deleteButton.addEventListener('click', () => {
+				this.plugin.removeVaultMapping(mapping.name);
+				this.display(); // Refresh the display
+			});
+		});
+	}
+
+	private async showImportVaultsDialog() {
+		const vaults = await this.plugin.getKnownVaults();
+		if (vaults.length === 0) {
+			new Notice('No other vaults found in Obsidian\'s vault list');
+			return;
+		}
+
+		new ImportVaultsModal(this.app, this.plugin, vaults, () => {
+			this.display(); // Refresh the display after importing
+		}).open();
+	}
+
+	private showAddVaultDialog() {
+		const modal = new AddVaultModal(this.app, this.plugin, () => {
+			this.display(); // Refresh the display after adding vault
+		});
+		modal.open();
+	}
+}
+
+const SUGGESTION_LIMIT = 50;
+
+// Scores a note by its best matching basename, alias or path; basename matches rank highest
+function matchVaultFile(file: VaultFile, indexed: IndexedFile, search: ((text: string) => SearchResult | null) | null): VaultFileSuggestion | null {
+	const note = `${file.vault.name}/${file.path}`;
+	if (!search) {
+		return { file, title: file.basename, note, match: null, score: 0 };
+	}
+
+	let best: VaultFileSuggestion | null = null;
+	const consider = (suggestion: VaultFileSuggestion) => {
+		if (!best || suggestion.score > best.score) best = suggestion;
+	};
+
+	const basenameMatch = search(file.basename);
+	if (basenameMatch) {
+		consider({ file, title: file.basename, note, match: basenameMatch, score: basenameMatch.score + 1 });
+	}
+
+	indexed.aliases.forEach(alias => {
+		const aliasMatch = search(alias);
+		if (aliasMatch) {
+			consider({ file, title: alias, note: `Alias of ${note}`, match: aliasMatch, score: aliasMatch.score + 0.5, alias });
+		}
+	});
+
+	const pathMatch = search(file.path);
+	if (pathMatch) {
+		consider({ file, title: file.path, note: file.vault.name, match: pathMatch, score: pathMatch.score });
+	}
+
+	return best;
+}
+
+function renderSuggestionContent(el: HTMLElement, title: string, match: SearchResult | null, note?: string, flair?: string) {
+	el.addClass('mod-complex');
+
+	const contentEl = el.createDiv({ cls: 'suggestion-content' });
+	const titleEl = contentEl.createDiv({ cls: 'suggestion-title' });
+	if (match) {
+		renderResults(titleEl, title, match);
+	} else {
+		titleEl.setText(title);
+	}
+	if (note) {
+		contentEl.createDiv({ cls: 'suggestion-note', text: note });
+	}
+
+	if (flair) {
+		const auxEl = el.createDiv({ cls: 'suggestion-aux' });
+		auxEl.createSpan({ cls: 'suggestion-flair cross-vault-suggestion-vault', text: flair });
+	}
+}
+
+// Search links open the picker on a single vault with their query filled in
+interface VaultSearchTarget {
+	vaultMapping: VaultMapping;
+	query: string;
+}
+
+class VaultFileSuggestModal extends SuggestModal<VaultFileSuggestion> {
+	private plugin: CrossVaultPlugin;
+	// Called with null when the modal is dismissed without a choice
+	private onChoose: (file: VaultFile | null, mode: LinkInsertMode, alias?: string) => void;
+	private mode: LinkInsertMode = 'link';
+	private chosen = false;
+	private searchTarget: VaultSearchTarget | null;
+	// Rendered rows, so the highlighted one can be chosen with a modifier key
+	private renderedSuggestions = new Map<HTMLElement, VaultFileSuggestion>();
+
+	constructor(app: App, plugin: CrossVaultPlugin, onChoose: (file: VaultFile | null, mode: LinkInsertMode, alias?: string) => void, searchTarget?: VaultSearchTarget) {
+		super(app);
+		this.plugin = plugin;
+		this.onChoose = onChoose;
+		this.searchTarget = searchTarget || null;
+		this.limit = SUGGESTION_LIMIT;
+
+		if (this.searchTarget) {
+			this.setPlaceholder(`Find a note in ${this.searchTarget.vaultMapping.name}...`);
+			this.setInstructions([
+				{ command: '↑↓', purpose: 'to navigate' },
+				{ command: '↵', purpose: 'to open' },
+				{ command: 'esc', purpose: 'to dismiss' }
+			]);
+			return;
+		}
+
+		this.setPlaceholder('Find a note in a mapped vault... (use # to link to a heading)');
+
+		const mod = Platform.isMacOS ? 'cmd' : 'ctrl';
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to insert link' },
+			{ command: 'shift ↵', purpose: 'to insert URL' },
+			{ command: `${mod} ↵`, purpose: 'to insert embed' },
+			{ command: 'esc', purpose: 'to dismiss' }
+		]);
+
+		// SuggestModal only chooses on a plain Enter, so the modifiers pick the item themselves
+		this.scope.register(['Shift'], 'Enter', (evt) => this.chooseWithMode(evt, 'url'));
+		this.scope.register(['Mod'], 'Enter', (evt) => this.chooseWithMode(evt, 'embed'));
+	}
+
+	onOpen() {
+		super.onOpen();
+		if (this.searchTarget && this.searchTarget.query) {
+			this.inputEl.value = this.searchTarget.query;
+			this.inputEl.dispatchEvent(new Event('input'));
+		}
+	}
+
+	private chooseWithMode(evt: KeyboardEvent, mode: LinkInsertMode): boolean {
+		const selectedEl = this.resultContainerEl.querySelector('.suggestion-item.is-selected');
+		const suggestion = selectedEl ? this.renderedSuggestions.get(selectedEl as HTMLElement) : undefined;
+		if (suggestion) {
+			this.mode = mode;
+			this.selectSuggestion(suggestion, evt);
+		}
+		return false;
+	}
+
+	getSuggestions(query: string): VaultFileSuggestion[] {
+		const mappings = this.searchTarget ? [this.searchTarget.vaultMapping] : this.plugin.settings.vaultMappings;
+		if (mappings.length === 0) {
+			this.emptyStateText = 'No vaults configured. Please add vaults in the plugin settings.';
+			return [];
+		}
+
+		const indexing = mappings.some(mapping => !this.plugin.getVaultIndex(mapping).ready);
+		this.emptyStateText = indexing ? 'No matching notes yet, some vaults are still being indexed' : 'No matching notes';
+
+		// "note#heading" searches the headings (or ^blocks) of the notes matching "note"
+		const hashIndex = query.indexOf('#');
+		const fileQuery = (hashIndex === -1 ? query : query.substring(0, hashIndex)).trim();
+		const subpathQuery = hashIndex === -1 ? null : query.substring(hashIndex + 1).trim();
+		const subpathText = subpathQuery ? subpathQuery.replace(/^\^/, '') : '';
+		const fileSearch = fileQuery ? prepareFuzzySearch(fileQuery) : null;
+		const subpathSearch = subpathText ? prepareFuzzySearch(subpathText) : null;
+
+		const suggestions: VaultFileSuggestion[] = [];
+		this.renderedSuggestions.clear();
+		mappings.forEach(mapping => {
+			this.plugin.getVaultIndex(mapping).getFiles().forEach(indexed => {
+				const file: VaultFile = {
+					vault: mapping,
+					path: indexed.path.replace(/\.md$/, ''),
+					basename: indexed.basename
+				};
+
+				// A plain query also matches headings, ranked below notes matching by name
+				if (subpathQuery === null && fileSearch) {
+					indexed.subpaths.forEach(subpath => {
+						if (subpath.level === 0) return;
+
+						const match = fileSearch(subpath.text);
+						if (!match) return;
+
+						suggestions.push({
+							file: { ...file, subpath: subpath.subpath },
+							title: subpath.text,
+							note: `${mapping.name}/${file.path}`,
+							match,
+							score: match.score - 0.5
+						});
+					});
+				}
+
+				const fileMatch = matchVaultFile(file, indexed, fileSearch);
+				if (!fileMatch) return;
+
+				if (subpathQuery === null) {
+					suggestions.push(fileMatch);
+					return;
+				}
+
+				const wantBlocks = subpathQuery.startsWith('^');
+				indexed.subpaths.forEach(subpath => {
+					if ((subpath.level === 0) !== wantBlocks) return;
+
+					const match = subpathSearch ? subpathSearch(subpath.text) : null;
+					if (subpathSearch && !match) return;
+
+					suggestions.push({
+						file: { ...file, subpath: subpath.subpath },
+						title: subpath.level === 0 ? `${subpath.subpath.substring(1)}  ${subpath.text}` : subpath.text,
+						note: `${mapping.name}/${file.path}`,
+						match,
+						score: fileMatch.score + (match ? match.score : 0)
+					});
+				});
+			});
+		});
+
+		// Without a query, recently modified notes come first
+		if (!fileSearch && !subpathSearch) {
+			suggestions.sort((a, b) => this.getMtime(b) - this.getMtime(a));
+		} else {
+			suggestions.sort((a, b) => b.score - a.score);
+		}
+		return suggestions.slice(0, this.limit);
+	}
+
+	private getMtime(suggestion: VaultFileSuggestion): number {
+		const indexed = this.plugin.getVaultIndex(suggestion.file.vault).resolve(suggestion.file.path);
+		return indexed ? indexed.mtime : 0;
+	}
+
+	renderSuggestion(suggestion: VaultFileSuggestion, el: HTMLElement) {
+		this.renderedSuggestions.set(el, suggestion);
+		renderSuggestionContent(el, suggestion.title, suggestion.match, suggestion.note, suggestion.file.vault.name);
+	}
+
+	onChooseSuggestion(suggestion: VaultFileSuggestion) {
+		this.chosen = true;
+		this.onChoose(suggestion.file, this.mode, suggestion.alias);
+		this.mode = 'link';
+	}
+
+	// Obsidian closes the modal before it reports the chosen suggestion, so a dismissal is only known afterwards
+	onClose() {
+		super.onClose();
+		window.setTimeout(() => {
+			if (!this.chosen) {
+				this.onChoose(null, this.mode);
+			}
+		}, 0);
+	}
+}
+
+// Tolerates half-typed escapes such as "%2" while a URL is being written
+function safeDecodeURIComponent(text: string): string {
+	try {
+		return decodeURIComponent(text);
+	} catch (error) {
+		return text;
+	}
+}
+
+class CrossVaultEditorSuggest extends EditorSuggest<CrossVaultLinkSuggestion> {
+	private plugin: CrossVaultPlugin;
+	private trigger: CrossVaultSuggestTrigger | null = null;
+
+	constructor(app: App, plugin: CrossVaultPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.limit = SUGGESTION_LIMIT;
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
+		const line = editor.getLine(cursor.line).substring(0, cursor.ch);
+		this.trigger = this.parseUrlTrigger(line) || this.parseCompactTrigger(line);
+		if (!this.trigger) return null;
+
+		return {
+			start: { line: cursor.line, ch: this.trigger.start },
+			end: cursor,
+			query: this.trigger.query
+		};
+	}
+
+	// obsidian://open?vault=<vault>&file=<file>#<heading>, with the anchor possibly encoded as %23
+	private parseUrlTrigger(line: string): CrossVaultSuggestTrigger | null {
+		const match = line.match(/obsidian:\/\/open\?vault=([^&\s)]*)(?:&file=([^&\s)#]*?)(?:(?:#|%23)([^&\s)]*))?)?$/);
+		if (!match || match.index === undefined) return null;
+
+		const start = match.index;
+		const inMarkdownLink = line.substring(0, start).endsWith('](');
+		const vaultName = safeDecodeURIComponent(match[1]);
+		if (match[2] === undefined) {
+			return { form: 'url', stage: 'vault', start, query: vaultName, inMarkdownLink };
+		}
+
+		const vaultMapping = this.plugin.getVaultMapping(vaultName);
+		if (!vaultMapping) return null;
+
+		const fileName = safeDecodeURIComponent(match[2]);
+		if (match[3] === undefined) {
+			return { form: 'url', stage: 'file', start, query: fileName, vaultMapping, inMarkdownLink };
+		}
+
+		const indexed = this.plugin.getVaultIndex(vaultMapping).resolve(fileName);
+		if (!indexed) return null;
+		return { form: 'url', stage: 'subpath', start, query: safeDecodeURIComponent(match[3]), vaultMapping, indexed, inMarkdownLink };
+	}
+
+	// [[<vault>::<file>#<heading>, suggesting vault names until the text before :: names a mapped vault
+	private parseCompactTrigger(line: string): CrossVaultSuggestTrigger | null {
+		const match = line.match(/\[\[([^\[\]|#:]*)::([^\[\]|#]*)(?:#([^\[\]|]*))?$/);
+		if (!match || match.index === undefined) return null;
+
+		const start = match.index;
+		const vaultMapping = this.plugin.getVaultMapping(match[1].trim());
+		if (!vaultMapping) {
+			return { form: 'compact', stage: 'vault', start, query: match[1].trim(), fileQuery: match[2], inMarkdownLink: false };
+		}
+
+		if (match[3] === undefined) {
+			return { form: 'compact', stage: 'file', start, query: match[2], vaultMapping, inMarkdownLink: false };
+		}
+
+		const indexed = this.plugin.getVaultIndex(vaultMapping).resolve(match[2].trim());
+		if (!indexed) return null;
+		return { form: 'compact', stage: 'subpath', start, query: match[3], vaultMapping, indexed, inMarkdownLink: false };
+	}
+
+	getSuggestions(context: EditorSuggestContext): CrossVaultLinkSuggestion[] {
+		const trigger = this.trigger;
+		if (!trigger) return [];
+
+		const query = context.query.trim();
+		const searchText = query.replace(/^\^/, '');
+		const search = searchText ? prepareFuzzySearch(searchText) : null;
+		const suggestions: CrossVaultLinkSuggestion[] = [];
+
+		if (trigger.stage === 'vault') {
+			this.plugin.settings.vaultMappings.forEach(vaultMapping => {
+				const match = search ? search(vaultMapping.name) : null;
+				if (search && !match) return;
+				suggestions.push({ vaultMapping, title: vaultMapping.name, note: vaultMapping.path, match, score: match ? match.score : 0 });
+			});
+		} else if (trigger.stage === 'file' && trigger.vaultMapping) {
+			const vaultMapping = trigger.vaultMapping;
+			this.plugin.getVaultIndex(vaultMapping).getFiles().forEach(indexed => {
+				const file: VaultFile = { vault: vaultMapping, path: indexed.path.replace(/\.md$/, ''), basename: indexed.basename };
+				const fileMatch = matchVaultFile(file, indexed, search);
+				if (!fileMatch) return;
+				suggestions.push({ vaultMapping, file, title: fileMatch.title, note: fileMatch.note, match: fileMatch.match, score: fileMatch.score });
+			});
+		} else if (trigger.stage === 'subpath' && trigger.vaultMapping && trigger.indexed) {
+			const vaultMapping = trigger.vaultMapping;
+			const indexed = trigger.indexed;
+			const wantBlocks = query.startsWith('^');
+			indexed.subpaths.forEach(subpath => {
+				if ((subpath.level === 0) !== wantBlocks) return;
+
+				const match = search ? search(subpath.text) : null;
+				if (search && !match) return;
+
+				const file: VaultFile = { vault: vaultMapping, path: indexed.path.replace(/\.md$/, ''), basename: indexed.basename, subpath: subpath.subpath };
+				const title = subpath.level === 0 ? `${subpath.subpath.substring(1)}  ${subpath.text}` : subpath.text;
+				suggestions.push({ vaultMapping, file, title, note: indexed.basename, match, score: match ? match.score : 0 });
+			});
+		}
+
+		if (search) {
+			suggestions.sort((a, b) => b.score - a.score);
+		}
+		return suggestions.slice(0, this.limit);
+	}
+
+	renderSuggestion(suggestion: CrossVaultLinkSuggestion, el: HTMLElement) {
+		renderSuggestionContent(el, suggestion.title, suggestion.match, suggestion.note, suggestion.file ? suggestion.vaultMapping.name : undefined);
+	}
+
+	selectSuggestion(suggestion: CrossVaultLinkSuggestion) {
+		const context = this.context;
+		const trigger = this.trigger;
+		if (!context || !trigger) return;
+
+		const { editor, start } = context;
+		let end = context.end;
+		let text: string;
+
+		if (!suggestion.file) {
+			// Completing the vault keeps the suggester open for the file
+			text = trigger.form === 'url'
+				? `obsidian://open?vault=${encodeURIComponent(suggestion.vaultMapping.name)}&file=`
+				: `[[${suggestion.vaultMapping.name}::${trigger.fileQuery || ''}`;
+		} else if (trigger.form === 'compact') {
+			// Swallow the ]] that Obsidian auto-inserts after [[
+			const after = editor.getLine(end.line).substring(end.ch);
+			const closing = after.match(/^[^\[\]]*\]\]/);
+			if (closing) {
+				end = { line: end.line, ch: end.ch + closing[0].length };
+			}
+			text = buildCompactLink(suggestion.vaultMapping.name, suggestion.file.path, suggestion.file.subpath);
+		} else {
+			text = this.plugin.formatVaultFileLink(suggestion.file, trigger.inMarkdownLink ? 'url' : 'link');
+		}
+
+		editor.replaceRange(text, start, end);
+		editor.setCursor({ line: start.line, ch: start.ch + text.length });
+	}
+}
+
+const BACKLINKS_VIEW_TYPE = 'cross-vault-backlinks';
+
+class CrossVaultBacklinksView extends ItemView {
+	private plugin: CrossVaultPlugin;
+	private renderTimer: number | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CrossVaultPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return BACKLINKS_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return 'Cross-Vault Backlinks';
+	}
+
+	getIcon() {
+		return 'links-coming-in';
+	}
+
+	async onOpen() {
+		this.registerEvent(this.app.workspace.on('file-open', () => this.render()));
+		this.registerEvent(this.plugin.onIndexChanged(() => this.scheduleRender()));
+		this.render();
+	}
+
+	async onClose() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+	}
+
+	private scheduleRender() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, 500);
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('cross-vault-backlinks');
+
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			container.createDiv({ cls: 'cross-vault-empty', text: 'No active note' });
+			return;
+		}
+
+		container.createDiv({ cls: 'cross-vault-backlinks-header', text: `Linking to ${file.basename}` });
+
+		const backlinks = this.plugin.findBacklinks(file);
+		if (backlinks.length === 0) {
+			const indexing = this.plugin.settings.vaultMappings.some(mapping => !this.plugin.getVaultIndex(mapping).ready);
+			container.createDiv({ cls: 'cross-vault-empty', text: indexing ? 'No backlinks found yet, some vaults are still being indexed' : 'No backlinks found in mapped vaults' });
+			return;
+		}
+
+		this.plugin.settings.vaultMappings.forEach(vaultMapping => {
+			const vaultBacklinks = backlinks.filter(backlink => backlink.vaultMapping === vaultMapping);
+			if (vaultBacklinks.length === 0) return;
+
+			const vaultEl = container.createDiv({ cls: 'cross-vault-backlinks-vault' });
+			vaultEl.createDiv({ cls: 'cross-vault-backlinks-vault-title', text: `${vaultMapping.name} (${vaultBacklinks.length})` });
+
+			vaultBacklinks.forEach(({ indexed, link }) => {
+				const filePath = indexed.path.replace(/\.md$/, '');
+				const itemEl = vaultEl.createDiv({ cls: 'cross-vault-backlinks-item' });
+				itemEl.createDiv({ cls: 'cross-vault-backlinks-file', text: filePath });
+				itemEl.createDiv({ cls: 'cross-vault-backlinks-context', text: link.context });
+
+				itemEl.addEventListener('mouseenter', async () => {
+					const fileContent = await this.plugin.getFileFromVault(vaultMapping, filePath);
+					if (fileContent) {
+						this.plugin.showPreview(itemEl, vaultMapping, filePath, fileContent);
+					}
+				});
+
+				itemEl.addEventListener('click', async () => {
+					const fileContent = await this.plugin.getFileFromVault(vaultMapping, filePath);
+					if (fileContent) {
+						this.plugin.openCrossVaultFile(vaultMapping, filePath, fileContent);
+					} else {
+						new Notice(`File not found: ${vaultMapping.name}/${filePath}`);
+					}
+				});
+			});
+		});
+	}
+}
+
+const SEARCH_VIEW_TYPE = 'cross-vault-search';
+const MAX_SEARCH_RESULTS = 200;
+const MAX_SEARCH_MATCHES_PER_FILE = 20;
+const SEARCH_SNIPPET_CONTEXT = 40;
+const SEARCH_SNIPPET_LENGTH = 160;
+
+const EMPTY_SEARCH_QUERY: VaultSearchQuery = {
+	text: '',
+	regex: false,
+	caseSensitive: false,
+	vault: '',
+	folder: '',
+	tag: '',
+	frontmatter: ''
+};
+
+// Searches the text of every mapped vault, with hits grouped by note
+class CrossVaultSearchView extends ItemView {
+	private plugin: CrossVaultPlugin;
+	private query: VaultSearchQuery = { ...EMPTY_SEARCH_QUERY };
+	private searchTimer: number | null = null;
+	// Bumped for every search so a slower, older one stops when a new one starts
+	private searchGeneration = 0;
+	private inputs: { text: HTMLInputElement, regex: HTMLInputElement, caseSensitive: HTMLInputElement, vault: HTMLSelectElement, folder: HTMLInputElement, tag: HTMLInputElement, frontmatter: HTMLInputElement } | null = null;
+	private resultsEl!: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CrossVaultPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return SEARCH_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return 'Cross-Vault Search';
+	}
+
+	getIcon() {
+		return 'search';
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...this.query };
+	}
+
+	async setState(state: unknown, result: ViewStateResult) {
+		if (state && typeof state === 'object') {
+			this.query = { ...EMPTY_SEARCH_QUERY, ...(state as Partial<VaultSearchQuery>) };
+			this.updateInputs();
+			this.search();
+		}
+		await super.setState(state, result);
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('cross-vault-search');
+
+		const formEl = container.createDiv({ cls: 'cross-vault-search-form' });
+		const text = formEl.createEl('input', { type: 'text', cls: 'cross-vault-search-input', attr: { placeholder: 'Search mapped vaults...' } });
+
+		const optionsEl = formEl.createDiv({ cls: 'cross-vault-search-options' });
+		const regex = this.createCheckbox(optionsEl, 'Regex');
+		const caseSensitive = this.createCheckbox(optionsEl, 'Match case');
+
+		const filtersEl = formEl.createDiv({ cls: 'cross-vault-search-filters' });
+		const vault = filtersEl.createEl('select', { cls: 'dropdown' });
+		vault.createEl('option', { value: '', text: 'All vaults' });
+		this.plugin.settings.vaultMappings.forEach(mapping => vault.createEl('option', { value: mapping.name, text: mapping.name }));
+		const folder = filtersEl.createEl('input', { type: 'text', attr: { placeholder: 'Folder' } });
+		const tag = filtersEl.createEl('input', { type: 'text', attr: { placeholder: 'Tag' } });
+		const frontmatter = filtersEl.createEl('input', { type: 'text', attr: { placeholder: 'Frontmatter (field or field: value)' } });
+
+		this.inputs = { text, regex, caseSensitive, vault, folder, tag, frontmatter };
+		this.updateInputs();
+
+		[text, folder, tag, frontmatter].forEach(input => input.addEventListener('input', () => this.onQueryChanged()));
+		[regex, caseSensitive, vault].forEach(input => input.addEventListener('change', () => this.onQueryChanged()));
+
+		this.resultsEl = container.createDiv({ cls: 'cross-vault-search-results' });
+
+		// Hits may move when notes change in their vault
+		this.registerEvent(this.plugin.onIndexChanged(() => this.scheduleSearch(1000)));
+
+		this.search();
+		text.focus();
+	}
+
+	async onClose() {
+		this.searchGeneration++;
+		if (this.searchTimer !== null) {
+			window.clearTimeout(this.searchTimer);
 		}
 	}
 
-	addVaultMapping(mapping: VaultMapping) {
-		// Remove existing mapping with same name
-		this.settings.vaultMappings = this.settings.vaultMappings.filter(m => m.name !== mapping.name);
-		this.settings.vaultMappings.push(mapping);
-		this.saveSettings();
+	private createCheckbox(containerEl: HTMLElement, label: string): HTMLInputElement {
+		const labelEl = containerEl.createEl('label', { cls: 'cross-vault-search-option' });
+		const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+		labelEl.appendText(label);
+		return checkbox;
 	}
 
-	removeVaultMapping(name: string) {
-		this.settings.vaultMappings = this.settings.vaultMappings.filter(m => m.name !== name);
-		this.saveSettings();
+	private updateInputs() {
+		if (!this.inputs) return;
+		this.inputs.text.value = this.query.text;
+		this.inputs.regex.checked = this.query.regex;
+		this.inputs.caseSensitive.checked = this.query.caseSensitive;
+		this.inputs.vault.value = this.query.vault;
+		this.inputs.folder.value = this.query.folder;
+		this.inputs.tag.value = this.query.tag;
+		this.inputs.frontmatter.value = this.query.frontmatter;
 	}
 
-	async selectVaultFile(): Promise<VaultFile | null> {
-		return new Promise((resolve) => {
-			new VaultSelectionModal(this.app, this, (vault) => {
-				new FileSelectionModal(this.app, {
-					vaultMapping: vault,
-					onSelect: (file) => resolve(file)
-				}).open();
-			}).open();
-		});
+	private onQueryChanged() {
+		if (!this.inputs) return;
+		this.query = {
+			text: this.inputs.text.value,
+			regex: this.inputs.regex.checked,
+			caseSensitive: this.inputs.caseSensitive.checked,
+			vault: this.inputs.vault.value,
+			folder: this.inputs.folder.value,
+			tag: this.inputs.tag.value,
+			frontmatter: this.inputs.frontmatter.value
+		};
+		this.app.workspace.requestSaveLayout();
+		this.scheduleSearch(300);
 	}
-}
 
-class VaultMappingModal extends Modal {
-	plugin: CrossVaultPlugin;
-	parsedUrl: ObsidianUrl;
-	nameInput!: HTMLInputElement;
-	pathInput!: HTMLInputElement;
-	cacheCheckbox!: HTMLInputElement;
+	private scheduleSearch(delay: number) {
+		if (this.searchTimer !== null) {
+			window.clearTimeout(this.searchTimer);
+		}
+		this.searchTimer = window.setTimeout(() => {
+			this.searchTimer = null;
+			this.search();
+		}, delay);
+	}
 
-	constructor(app: App, plugin: CrossVaultPlugin, parsedUrl: ObsidianUrl) {
-		super(app);
-		this.plugin = plugin;
-		this.parsedUrl = parsedUrl;
+	private async search() {
+		if (!this.resultsEl) return;
+
+		const generation = ++this.searchGeneration;
+		const query = this.query;
+		const resultsEl = this.resultsEl;
+
+		if (!query.text && !query.folder.trim() && !query.tag.trim() && !query.frontmatter.trim()) {
+			resultsEl.empty();
+			resultsEl.createDiv({ cls: 'cross-vault-empty', text: 'Type to search every mapped vault' });
+			return;
+		}
+
+		let results: VaultSearchResult[];
+		try {
+			buildSearchRegExp(query);
+			results = await this.plugin.searchVaults(query, () => generation !== this.searchGeneration);
+		} catch (error) {
+			resultsEl.empty();
+			resultsEl.createDiv({ cls: 'cross-vault-error', text: `Invalid search: ${error instanceof Error ? error.message : 'Unknown error'}` });
+			return;
+		}
+		if (generation !== this.searchGeneration) return;
+
+		resultsEl.empty();
+		if (results.length === 0) {
+			resultsEl.createDiv({ cls: 'cross-vault-empty', text: 'No matches in mapped vaults' });
+			return;
+		}
+
+		const matchCount = results.reduce((count, result) => count + result.matches.length, 0);
+		const summary = query.text
+			? `${matchCount} matching line${matchCount === 1 ? '' : 's'} in ${results.length} note${results.length === 1 ? '' : 's'}`
+			: `${results.length} note${results.length === 1 ? '' : 's'}`;
+		resultsEl.createDiv({ cls: 'cross-vault-search-summary', text: results.length >= MAX_SEARCH_RESULTS ? `${summary} (showing the first ${MAX_SEARCH_RESULTS})` : summary });
+
+		results.forEach(result => this.renderResult(resultsEl, result));
 	}
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
-		
-		contentEl.createEl('h2', { text: 'Map Vault' });
-		
-		// Vault Name
-		contentEl.createEl('label', { text: 'Vault Name:' });
-		this.nameInput = contentEl.createEl('input', { type: 'text', value: this.parsedUrl.vault });
-		this.nameInput.style.width = '100%';
-		this.nameInput.style.marginBottom = '10px';
-		
-		// Vault Path
-		contentEl.createEl('label', { text: 'Vault Path:' });
-		this.pathInput = contentEl.createEl('input', { type: 'text', placeholder: 'Enter the full path to the vault directory' });
-		this.pathInput.style.width = '100%';
-		this.pathInput.style.marginBottom = '10px';
-		
-		// Local Cache Option
-		const cacheContainer = contentEl.createDiv();
-		cacheContainer.style.marginBottom = '20px';
-		this.cacheCheckbox = cacheContainer.createEl('input', { type: 'checkbox' });
-		cacheContainer.createEl('label', { text: ' Enable Local Cache' });
-		cacheContainer.prepend(this.cacheCheckbox);
-		
-		// Buttons
-		const buttonContainer = contentEl.createDiv();
-		buttonContainer.style.display = 'flex';
-		buttonContainer.style.justifyContent = 'space-between';
-		buttonContainer.style.marginTop = '20px';
-		
-		const saveButton = buttonContainer.createEl('button', { text: 'Save' });
-		saveButton.style.backgroundColor = 'var(--interactive-accent)';
-		saveButton.style.color = 'var(--text-on-accent)';
-		saveButton.addEventListener('click', () => this.save());
-		
-		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
-		cancelButton.addEventListener('click', () => this.close());
-		
-		// Focus on path input
-		this.pathInput.focus();
+	private renderResult(containerEl: HTMLElement, result: VaultSearchResult) {
+		const { vaultMapping, indexed } = result;
+		const filePath = indexed.path.replace(/\.md$/, '');
+		const fileEl = containerEl.createDiv({ cls: 'cross-vault-search-file' });
+
+		const headerEl = fileEl.createDiv({ cls: 'cross-vault-search-file-header' });
+		headerEl.createSpan({ cls: 'cross-vault-search-vault', text: vaultMapping.name });
+		headerEl.createSpan({ cls: 'cross-vault-search-path', text: filePath });
+		if (result.matches.length > 0) {
+			headerEl.createSpan({ cls: 'cross-vault-search-count', text: String(result.matches.length) });
+		}
+		this.renderActions(headerEl, { vault: vaultMapping, path: filePath, basename: indexed.basename });
+
+		headerEl.addEventListener('mouseenter', async () => {
+			const fileContent = await this.plugin.getFileFromVault(vaultMapping, filePath);
+			if (fileContent) {
+				this.plugin.showPreview(headerEl, vaultMapping, filePath, fileContent);
+			}
+		});
+
+		result.matches.forEach(match => {
+			const matchEl = fileEl.createDiv({ cls: 'cross-vault-search-match' });
+			this.renderSnippet(matchEl.createDiv({ cls: 'cross-vault-search-snippet' }), match);
+			this.renderActions(matchEl, { vault: vaultMapping, path: filePath, basename: indexed.basename, subpath: match.subpath });
+		});
 	}
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
+	// Shows the line around its first hit, with every hit in that part highlighted
+	private renderSnippet(el: HTMLElement, match: VaultSearchMatch) {
+		const start = Math.max(0, match.ranges[0].from - SEARCH_SNIPPET_CONTEXT);
+		const end = Math.min(match.text.length, start + SEARCH_SNIPPET_LENGTH);
+		let position = start;
+
+		if (start > 0) el.appendText('…');
+		match.ranges.forEach(range => {
+			if (range.from < position || range.from >= end) return;
+			el.appendText(match.text.substring(position, range.from));
+			position = Math.min(range.to, end);
+			el.createSpan({ cls: 'cross-vault-search-highlight', text: match.text.substring(range.from, position) });
+		});
+		el.appendText(match.text.substring(position, end));
+		if (end < match.text.length) el.appendText('…');
 	}
 
-	save() {
-		const name = this.nameInput.value.trim();
-		const path = this.pathInput.value.trim();
-		
-		if (!name || !path) {
-			new Notice('Please enter both vault name and path');
+	private renderActions(containerEl: HTMLElement, vaultFile: VaultFile) {
+		const actionsEl = containerEl.createDiv({ cls: 'cross-vault-search-actions' });
+
+		const insertButton = actionsEl.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': 'Insert link' } });
+		setIcon(insertButton, 'link');
+		insertButton.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.insertLink(vaultFile);
+		});
+
+		const openButton = actionsEl.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': 'Open' } });
+		setIcon(openButton, 'file-symlink');
+		openButton.addEventListener('click', async (e) => {
+			e.stopPropagation();
+			const fileContent = await this.plugin.getFileFromVault(vaultFile.vault, vaultFile.path);
+			if (fileContent) {
+				this.plugin.openCrossVaultFile(vaultFile.vault, vaultFile.path, fileContent, vaultFile.subpath);
+			} else {
+				new Notice(`File not found: ${vaultFile.vault.name}/${vaultFile.path}`);
+			}
+		});
+	}
+
+	// The search view has focus while its buttons are clicked, so the link goes into the last note edited
+	private insertLink(vaultFile: VaultFile) {
+		const leaf = this.app.workspace.getMostRecentLeaf();
+		const view = leaf ? leaf.view : null;
+		if (!(view instanceof MarkdownView)) {
+			new Notice('Open a note to insert the link into');
 			return;
 		}
-		
-		const mapping: VaultMapping = {
-			name,
-			path,
-			enableLocalCache: this.cacheCheckbox.checked
-		};
-		
-		this.plugin.addVaultMapping(mapping);
-		new Notice(`Vault "${name}" mapped successfully`);
-		this.close();
+
+		view.editor.replaceSelection(this.plugin.formatVaultFileLink(vaultFile, 'link'));
+		new Notice(`Inserted link to ${vaultFile.vault.name}/${vaultFile.path}`);
 	}
 }
 
-class AddVaultModal extends Modal {
-	plugin: CrossVaultPlugin;
-	callback: () => void;
-	nameInput!: HTMLInputElement;
-	pathInput!: HTMLInputElement;
-	cacheCheckbox!: HTMLInputElement;
+const GRAPH_VIEW_TYPE = 'cross-vault-graph';
+const GRAPH_VAULT_COLORS = ['purple', 'blue', 'green', 'orange', 'pink', 'cyan', 'yellow', 'red'];
 
-	constructor(app: App, plugin: CrossVaultPlugin, callback: () => void) {
-		super(app);
+type GraphMode = 'notes' | 'vaults';
+
+interface GraphViewState {
+	mode: GraphMode;
+	includeMappedVaults: boolean;
+}
+
+interface GraphDrawNode {
+	id: string;
+	vault: string;
+	label: string;
+	// Diameter of the dot in pixels
+	size: number;
+	unresolved: boolean;
+	note?: LinkGraphNode;
+}
+
+// Shows how notes of this vault and the mapped vaults link to each other, one colour per vault
+class CrossVaultGraphView extends ItemView {
+	// Lets Page Preview show notes of this vault
+	hoverPopover: HoverPopover | null = null;
+	private plugin: CrossVaultPlugin;
+	private state: GraphViewState = { mode: 'notes', includeMappedVaults: false };
+	private graph: LinkGraph | null = null;
+	private graphSignature = '';
+	private renderTimer: number | null = null;
+	private toolbarEl!: HTMLElement;
+	private legendEl!: HTMLElement;
+	private viewportEl!: HTMLElement;
+	private stageEl!: HTMLElement;
+	private summaryEl!: HTMLElement;
+	private offset: GraphPoint = { x: 0, y: 0 };
+	private scale = 1;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CrossVaultPlugin) {
+		super(leaf);
 		this.plugin = plugin;
-		this.callback = callback;
 	}
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
-		
-		contentEl.createEl('h2', { text: 'Add New Vault' });
-		
-		// Vault Name
-		contentEl.createEl('label', { text: 'Vault Name:' });
-		this.nameInput = contentEl.createEl('input', { type: 'text', placeholder: 'Enter vault name' });
-		this.nameInput.style.width = '100%';
-		this.nameInput.style.marginBottom = '10px';
-		
-		// Vault Path with Browse Button
-		contentEl.createEl('label', { text: 'Vault Path:' });
-		const pathContainer = contentEl.createDiv();
-		pathContainer.style.display = 'flex';
-		pathContainer.style.gap = '10px';
-		pathContainer.style.marginBottom = '10px';
+	getViewType() {
+		return GRAPH_VIEW_TYPE;
+	}
 
-		this.pathInput = pathContainer.createEl('input', { type: 'text', placeholder: 'Enter the full path to the vault directory' });
-		this.pathInput.style.flex = '1';
+	getDisplayText() {
+		return 'Cross-Vault Graph';
+	}
 
-		const browseButton = pathContainer.createEl('button', { text: 'Browse', cls: 'browse-button' });
-		browseButton.addEventListener('click', async () => {
-			try {
-				// @ts-ignore - showOpenDialog is available but not typed
-				const result = await window.electron.remote.dialog.showOpenDialog({
-					properties: ['openDirectory']
-				});
-				
-				if (!result.canceled && result.filePaths.length > 0) {
-					this.pathInput.value = result.filePaths[0];
-				}
-			} catch (error) {
-				console.error('Error opening file dialog:', error);
-				new Notice('Could not open file browser. Please enter path manually.');
+	getIcon() {
+		return 'git-fork';
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...this.state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult) {
+		if (state && typeof state === 'object') {
+			const previous = this.state;
+			this.state = { ...this.state, ...(state as Partial<GraphViewState>) };
+			if (this.viewportEl && previous.includeMappedVaults !== this.state.includeMappedVaults) {
+				await this.refresh();
+			} else if (this.viewportEl) {
+				this.draw();
 			}
+			this.renderToolbar();
+		}
+		await super.setState(state, result);
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('cross-vault-graph');
+
+		this.toolbarEl = container.createDiv({ cls: 'cross-vault-graph-toolbar' });
+		this.legendEl = container.createDiv({ cls: 'cross-vault-graph-legend' });
+		this.viewportEl = container.createDiv({ cls: 'cross-vault-graph-viewport' });
+		this.stageEl = this.viewportEl.createDiv({ cls: 'cross-vault-graph-stage' });
+		this.summaryEl = container.createDiv({ cls: 'cross-vault-graph-summary' });
+		this.renderToolbar();
+		this.registerPanAndZoom();
+
+		// Rebuild when links change in this vault or in a mapped one
+		this.registerEvent(this.app.vault.on('modify', () => this.scheduleRefresh()));
+		this.registerEvent(this.plugin.onIndexChanged(() => this.scheduleRefresh()));
+
+		await this.refresh();
+	}
+
+	async onClose() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+	}
+
+	private renderToolbar() {
+		if (!this.toolbarEl) return;
+		this.toolbarEl.empty();
+
+		const modeSelect = this.toolbarEl.createEl('select', { cls: 'dropdown' });
+		modeSelect.createEl('option', { value: 'notes', text: 'Notes' });
+		modeSelect.createEl('option', { value: 'vaults', text: 'Vaults' });
+		modeSelect.value = this.state.mode;
+		modeSelect.addEventListener('change', () => this.updateState({ mode: modeSelect.value as GraphMode }));
+
+		const label = this.toolbarEl.createEl('label', { cls: 'cross-vault-graph-option' });
+		const checkbox = label.createEl('input', { type: 'checkbox' });
+		checkbox.checked = this.state.includeMappedVaults;
+		checkbox.addEventListener('change', () => this.updateState({ includeMappedVaults: checkbox.checked }));
+		label.appendText('Include links inside mapped vaults');
+
+		const fitButton = this.toolbarEl.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': 'Fit to view' } });
+		setIcon(fitButton, 'maximize');
+		fitButton.addEventListener('click', () => this.fit());
+	}
+
+	private async updateState(state: Partial<GraphViewState>) {
+		await this.leaf.setViewState({ type: GRAPH_VIEW_TYPE, active: true, state: { ...this.state, ...state } as unknown as Record<string, unknown> });
+	}
+
+	private scheduleRefresh() {
+		if (this.renderTimer !== null) {
+			window.clearTimeout(this.renderTimer);
+		}
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.refresh();
+		}, 1000);
+	}
+
+	// Edits that do not touch any links leave the layout where it is
+	private async refresh() {
+		const graph = await this.plugin.buildLinkGraph(this.state.includeMappedVaults);
+		const signature = JSON.stringify(graph);
+		if (this.graph && signature === this.graphSignature) return;
+
+		this.graph = graph;
+		this.graphSignature = signature;
+		this.draw();
+	}
+
+	private getVaultColor(vault: string): string {
+		const index = this.graph ? this.graph.vaults.indexOf(vault) : 0;
+		return `var(--color-${GRAPH_VAULT_COLORS[Math.max(index, 0) % GRAPH_VAULT_COLORS.length]})`;
+	}
+
+	private draw() {
+		const graph = this.graph;
+		if (!graph) return;
+
+		this.legendEl.empty();
+		graph.vaults.forEach(vault => {
+			const itemEl = this.legendEl.createDiv({ cls: 'cross-vault-graph-legend-item' });
+			itemEl.createSpan({ cls: 'cross-vault-graph-dot' }).style.backgroundColor = this.getVaultColor(vault);
+			itemEl.appendText(vault === graph.vaults[0] ? `${vault} (this vault)` : vault);
 		});
-		
-		// Local Cache Option
-		const cacheContainer = contentEl.createDiv();
-		cacheContainer.style.marginBottom = '20px';
-		this.cacheCheckbox = cacheContainer.createEl('input', { type: 'checkbox' });
-		cacheContainer.createEl('label', { text: ' Enable Local Cache' });
-		cacheContainer.prepend(this.cacheCheckbox);
-		
-		// Buttons
-		const buttonContainer = contentEl.createDiv();
-		buttonContainer.style.display = 'flex';
-		buttonContainer.style.justifyContent = 'space-between';
-		buttonContainer.style.marginTop = '20px';
-		
-		const saveButton = buttonContainer.createEl('button', { text: 'Add Vault' });
-		saveButton.style.backgroundColor = 'var(--interactive-accent)';
-		saveButton.style.color = 'var(--text-on-accent)';
-		saveButton.addEventListener('click', () => this.save());
-		
-		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
-		cancelButton.addEventListener('click', () => this.close());
-		
-		// Focus on name input
-		this.nameInput.focus();
-		
-		// Handle Enter key
-		this.nameInput.addEventListener('keydown', (e) => {
-			if (e.key === 'Enter') {
-				this.pathInput.focus();
-			}
+
+		this.summaryEl.empty();
+		if (graph.nodes.length === 0) {
+			this.stageEl.empty();
+			this.stageEl.createDiv({ cls: 'cross-vault-empty', text: 'No cross-vault links found' });
+			return;
+		}
+
+		if (this.state.mode === 'vaults') {
+			this.drawVaults(graph);
+		} else {
+			this.drawNotes(graph);
+		}
+	}
+
+	private drawNotes(graph: LinkGraph) {
+		const degrees = new Map<string, number>();
+		graph.edges.forEach(edge => {
+			degrees.set(edge.from, (degrees.get(edge.from) || 0) + edge.count);
+			degrees.set(edge.to, (degrees.get(edge.to) || 0) + edge.count);
+		});
+
+		const nodes: GraphDrawNode[] = graph.nodes.map(note => ({
+			id: note.id,
+			vault: note.vault,
+			label: note.path.split('/').pop() || note.path,
+			size: Math.min(24, 8 + 2 * Math.sqrt(degrees.get(note.id) || 0)),
+			unresolved: !note.exists,
+			note
+		}));
+		this.drawGraph(nodes, graph.edges.map(edge => ({ from: edge.from, to: edge.to })), graph.vaults);
+	}
+
+	// One node per vault, with the number of links each way between every pair
+	private drawVaults(graph: LinkGraph) {
+		const vaultOf = new Map<string, string>();
+		graph.nodes.forEach(note => vaultOf.set(note.id, note.vault));
+
+		const counts = new Map<string, number>();
+		graph.edges.forEach(edge => {
+			const from = vaultOf.get(edge.from)!;
+			const to = vaultOf.get(edge.to)!;
+			if (from === to) return;
+			const key = `${from}\n${to}`;
+			counts.set(key, (counts.get(key) || 0) + edge.count);
+		});
+
+		const nodes: GraphDrawNode[] = graph.vaults.map(vault => {
+			const noteCount = graph.nodes.filter(note => note.vault === vault).length;
+			return {
+				id: vault,
+				vault,
+				label: `${vault} (${noteCount} note${noteCount === 1 ? '' : 's'})`,
+				size: Math.min(60, 16 + 4 * Math.sqrt(noteCount)),
+				unresolved: vault !== graph.vaults[0] && !this.plugin.getVaultMapping(vault)
+			};
 		});
-		
-		this.pathInput.addEventListener('keydown', (e) => {
-			if (e.key === 'Enter') {
-				this.save();
+
+		// Both directions share one line, labelled with the total
+		const pairs = new Map<string, { from: string, to: string, count: number }>();
+		counts.forEach((count, key) => {
+			const [from, to] = key.split('\n');
+			const pairKey = from < to ? `${from}\n${to}` : `${to}\n${from}`;
+			const pair = pairs.get(pairKey);
+			if (pair) {
+				pair.count += count;
+			} else {
+				pairs.set(pairKey, { from, to, count });
 			}
 		});
-	}
+		this.drawGraph(nodes, Array.from(pairs.values()).map(pair => ({ from: pair.from, to: pair.to, label: String(pair.count) })), graph.vaults);
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
+		const tableEl = this.summaryEl.createEl('table', { cls: 'cross-vault-graph-table' });
+		const headerRow = tableEl.createEl('tr');
+		['From', 'To', 'Links'].forEach(text => headerRow.createEl('th', { text }));
+		Array.from(counts.entries())
+			.sort((a, b) => b[1] - a[1])
+			.forEach(([key, count]) => {
+				const [from, to] = key.split('\n');
+				const row = tableEl.createEl('tr');
+				row.createEl('td', { text: from });
+				row.createEl('td', { text: to });
+				row.createEl('td', { text: String(count) });
+			});
 	}
 
-	save() {
-		const name = this.nameInput.value.trim();
-		const path = this.pathInput.value.trim();
-		
-		if (!name || !path) {
-			new Notice('Please enter both vault name and path');
-			return;
-		}
-		
-		const mapping: VaultMapping = {
-			name,
-			path,
-			enableLocalCache: this.cacheCheckbox.checked
-		};
-		
-		this.plugin.addVaultMapping(mapping);
-		new Notice(`Vault "${name}" added successfully`);
-		this.callback(); // Refresh the settings display
-		this.close();
-	}
-}
+	private drawGraph(nodes: GraphDrawNode[], edges: { from: string, to: string, label?: string }[], groups: string[]) {
+		const positions = layoutGraph(nodes.map(node => ({ id: node.id, group: node.vault })), edges, groups);
+		this.stageEl.empty();
 
-class CrossVaultDisplayWidget extends WidgetType {
-	constructor(
-		private text: string,
-		private plugin: CrossVaultPlugin,
-		private parsedUrl: ObsidianUrl,
-		private vaultMapping: VaultMapping | null
-	) {
-		super();
-	}
+		const svg = this.stageEl.createSvg('svg', { cls: 'cross-vault-graph-edges' });
+		const edgeEls = new Map<string, SVGElement[]>();
+		edges.forEach(edge => {
+			const from = positions.get(edge.from);
+			const to = positions.get(edge.to);
+			if (!from || !to) return;
 
-	toDOM() {
-		const span = document.createElement('span');
-		span.className = 'cross-vault-link';
-		span.textContent = this.text;
+			const line = svg.createSvg('line', { cls: 'cross-vault-graph-edge', attr: { x1: from.x, y1: from.y, x2: to.x, y2: to.y } });
+			[edge.from, edge.to].forEach(id => edgeEls.set(id, (edgeEls.get(id) || []).concat(line)));
+			if (edge.label) {
+				const label = svg.createSvg('text', { cls: 'cross-vault-graph-edge-label', attr: { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 } });
+				label.textContent = edge.label;
+			}
+		});
 
-		if (this.vaultMapping) {
-			span.title = `Click to open in ${this.vaultMapping.name} vault`;
-			
-			// Handle hover
-			span.addEventListener('mouseenter', async () => {
-				const fileContent = await this.plugin.getFileFromVault(this.vaultMapping!, this.parsedUrl.file);
-				if (fileContent) {
-					this.plugin.showPreview(span, fileContent, this.parsedUrl.file);
-				}
-			});
+		nodes.forEach(node => {
+			const position = positions.get(node.id)!;
+			const nodeEl = this.stageEl.createDiv({ cls: 'cross-vault-graph-node' });
+			nodeEl.toggleClass('is-unresolved', node.unresolved);
+			nodeEl.style.left = `${position.x}px`;
+			nodeEl.style.top = `${position.y}px`;
 
-			// Handle click
-			span.addEventListener('click', async (e) => {
-				e.preventDefault();
-				const fileContent = await this.plugin.getFileFromVault(this.vaultMapping!, this.parsedUrl.file);
-				if (fileContent) {
-					this.plugin.openCrossVaultFile(this.vaultMapping!, this.parsedUrl.file, fileContent);
-				}
-			});
-		} else {
-			span.title = `Vault "${this.parsedUrl.vault}" not mapped. Click to map.`;
-			span.addEventListener('click', (e) => {
-				e.preventDefault();
-				this.plugin.showVaultMappingDialog(this.parsedUrl);
-			});
-		}
+			const dotEl = nodeEl.createDiv({ cls: 'cross-vault-graph-dot' });
+			dotEl.style.width = dotEl.style.height = `${node.size}px`;
+			dotEl.style.backgroundColor = this.getVaultColor(node.vault);
+			nodeEl.createDiv({ cls: 'cross-vault-graph-label', text: node.label });
 
-		return span;
-	}
-}
+			// Hovering a node highlights its links
+			nodeEl.addEventListener('mouseenter', () => (edgeEls.get(node.id) || []).forEach(line => line.addClass('is-highlighted')));
+			nodeEl.addEventListener('mouseleave', () => (edgeEls.get(node.id) || []).forEach(line => line.removeClass('is-highlighted')));
 
-class CrossVaultLinkWidget extends WidgetType {
-	plugin: CrossVaultPlugin;
-	parsedUrl: ObsidianUrl;
-	vaultMapping: VaultMapping | null;
+			const note = node.note;
+			if (note) {
+				nodeEl.setAttribute('aria-label', `${note.vault}: ${note.path}`);
+				nodeEl.addEventListener('mouseenter', (e) => this.previewNote(nodeEl, note, e));
+				nodeEl.addEventListener('click', () => this.openNote(note));
+			}
+		});
 
-	constructor(plugin: CrossVaultPlugin, parsedUrl: ObsidianUrl, vaultMapping: VaultMapping | null) {
-		super();
-		this.plugin = plugin;
-		this.parsedUrl = parsedUrl;
-		this.vaultMapping = vaultMapping;
+		this.fit();
 	}
 
-	toDOM() {
-		const span = document.createElement('span');
-		span.className = 'cross-vault-widget';
+	private async previewNote(nodeEl: HTMLElement, note: LinkGraphNode, event: MouseEvent) {
+		if (!note.exists) return;
 
-		if (!this.vaultMapping) {
-			span.className += ' cross-vault-error';
-			span.textContent = '?';
-			span.title = `Vault "${this.parsedUrl.vault}" not mapped. Click to map.`;
-			span.addEventListener('click', () => {
-				(this.plugin as any).showVaultMappingDialog(this.parsedUrl);
-			});
-		} else {
-			span.textContent = '✓';
-			span.title = `Linked to: ${this.vaultMapping.path}`;
+		// Notes of this vault get Obsidian's own page preview
+		if (this.graph && note.vault === this.graph.vaults[0]) {
+			this.app.workspace.trigger('hover-link', { event, source: GRAPH_VIEW_TYPE, hoverParent: this, targetEl: nodeEl, linktext: note.path, sourcePath: '' });
+			return;
 		}
 
-		return span;
+		const vaultMapping = this.plugin.getVaultMapping(note.vault);
+		const fileContent = vaultMapping ? await this.plugin.getFileFromVault(vaultMapping, note.path) : null;
+		if (vaultMapping && fileContent) {
+			this.plugin.showPreview(nodeEl, vaultMapping, note.path, fileContent);
+		}
 	}
-}
 
-class CrossVaultSettingTab extends PluginSettingTab {
-	plugin: CrossVaultPlugin;
+	private async openNote(note: LinkGraphNode) {
+		if (this.graph && note.vault === this.graph.vaults[0]) {
+			await this.app.workspace.openLinkText(note.path, '', false);
+			return;
+		}
 
-	constructor(app: App, plugin: CrossVaultPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+		const vaultMapping = this.plugin.getVaultMapping(note.vault);
+		if (!vaultMapping) {
+			new Notice(`Vault "${note.vault}" is not mapped`);
+			return;
+		}
+		await this.plugin.openVaultFile({ vault: vaultMapping, path: note.path, basename: note.path.split('/').pop() || note.path });
 	}
 
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
-		containerEl.className = 'cross-vault-settings';
-
-		containerEl.createEl('h2', { text: 'Cross Vault Navigator Settings' });
+	// Scales and centres the stage so every node is visible
+	private fit() {
+		const nodeEls = Array.from(this.stageEl.querySelectorAll('.cross-vault-graph-node')) as HTMLElement[];
+		if (nodeEls.length === 0) return;
 
-		containerEl.createEl('h3', { text: 'Vault Mappings' });
-		
-		const mappingsContainer = containerEl.createDiv();
-		this.displayVaultMappings(mappingsContainer);
+		const xs = nodeEls.map(el => parseFloat(el.style.left));
+		const ys = nodeEls.map(el => parseFloat(el.style.top));
+		const minX = Math.min(...xs) - 60;
+		const maxX = Math.max(...xs) + 60;
+		const minY = Math.min(...ys) - 40;
+		const maxY = Math.max(...ys) + 40;
+		const width = this.viewportEl.clientWidth || 600;
+		const height = this.viewportEl.clientHeight || 400;
 
-		new Setting(containerEl)
-			.setName('Add New Vault')
-			.setDesc('Map a new vault for cross-vault linking')
-			.addButton(button => {
-				button.setButtonText('Add Vault')
-					.setClass('add-vault-button')
-					.onClick(() => {
-						this.showAddVaultDialog();
-					});
-			});
+		this.scale = Math.min(2, width / (maxX - minX), height / (maxY - minY));
+		this.offset = {
+			x: width / 2 - ((minX + maxX) / 2) * this.scale,
+			y: height / 2 - ((minY + maxY) / 2) * this.scale
+		};
+		this.applyTransform();
 	}
 
-	private displayVaultMappings(container: HTMLElement) {
-		container.empty();
-		
-		this.plugin.settings.vaultMappings.forEach((mapping, index) => {
-			const mappingDiv = container.createDiv({ cls: 'vault-mapping' });
-			
-			const nameInput = mappingDiv.createEl('input', { type: 'text', value: mapping.name });
-			nameInput.placeholder = 'Vault Name';
-			nameInput.addEventListener('blur', () => {
-				mapping.name = nameInput.value;
-				this.plugin.saveSettings();
-			});
-			
-			const pathInput = mappingDiv.createEl('input', { type: 'text', value: mapping.path });
-			pathInput.placeholder = 'Vault Path';
-			pathInput.addEventListener('blur', () => {
-				mapping.path = pathInput.value;
-				this.plugin.saveSettings();
-			});
-			
-			const browseButton = mappingDiv.createEl('button', { text: 'Browse', cls: 'browse-button' });
-			browseButton.addEventListener('click', async () => {
-				try {
-					// @ts-ignore - showOpenDialog is available but not typed
-					const result = await window.electron.remote.dialog.showOpenDialog({
-						properties: ['openDirectory']
-					});
-					
-					if (!result.canceled && result.filePaths.length > 0) {
-						pathInput.value = result.filePaths[0];
-						mapping.path = result.filePaths[0];
-						this.plugin.saveSettings();
-					}
-				} catch (error) {
-					console.error('Error opening file dialog:', error);
-					new Notice('Could not open file browser. Please enter path manually.');
-				}
-			});
-			
-			const cacheCheckbox = mappingDiv.createEl('input', { type: 'checkbox' });
-			cacheCheckbox.checked = mapping.enableLocalCache;
-			cacheCheckbox.addEventListener('change', () => {
-				mapping.enableLocalCache = cacheCheckbox.checked;
-				this.plugin.saveSettings();
-			});
-			
-			const cacheLabel = mappingDiv.createEl('label', { text: 'Enable Local Cache' });
-			cacheLabel.prepend(cacheCheckbox);
-			
-			const deleteButton = mappingDiv.createEl('button', { text: 'Delete' });
-			deleteButton.addEventListener('click', () => {
-				this.plugin.removeVaultMapping(mapping.name);
-				this.display(); // Refresh the display
-			});
-		});
+	private applyTransform() {
+		this.stageEl.style.transform = `translate(${this.offset.x}px, ${this.offset.y}px) scale(${this.scale})`;
 	}
 
-	private showAddVaultDialog() {
-		const modal = new AddVaultModal(this.app, this.plugin, () => {
-			this.display(); // Refresh the display after adding vault
+	// Drag the background to pan, scroll to zoom around the pointer
+	private registerPanAndZoom() {
+		let dragStart: { x: number, y: number, offset: GraphPoint } | null = null;
+
+		this.registerDomEvent(this.viewportEl, 'mousedown', (e) => {
+			if ((e.target as HTMLElement).closest('.cross-vault-graph-node')) return;
+			dragStart = { x: e.clientX, y: e.clientY, offset: { ...this.offset } };
+			this.viewportEl.addClass('is-dragging');
 		});
-		modal.open();
+		this.registerDomEvent(document, 'mousemove', (e) => {
+			if (!dragStart) return;
+			this.offset = { x: dragStart.offset.x + e.clientX - dragStart.x, y: dragStart.offset.y + e.clientY - dragStart.y };
+			this.applyTransform();
+		});
+		this.registerDomEvent(document, 'mouseup', () => {
+			dragStart = null;
+			this.viewportEl.removeClass('is-dragging');
+		});
+
+		this.registerDomEvent(this.viewportEl, 'wheel', (e) => {
+			e.preventDefault();
+			const rect = this.viewportEl.getBoundingClientRect();
+			const pointer = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+			const scale = Math.min(4, Math.max(0.1, this.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+			this.offset = {
+				x: pointer.x - ((pointer.x - this.offset.x) * scale) / this.scale,
+				y: pointer.y - ((pointer.y - this.offset.y) * scale) / this.scale
+			};
+			this.scale = scale;
+			this.applyTransform();
+		}, { passive: false });
 	}
 }
 
-class FileSelectionModal extends Modal {
-	private files: VaultFile[] = [];
-	private searchInput!: HTMLInputElement;
-	private fileList!: HTMLElement;
-	private props: FileSelectionModalProps;
+const NOTE_VIEW_TYPE = 'cross-vault-note';
 
-	constructor(app: App, props: FileSelectionModalProps) {
-		super(app);
-		this.props = props;
-	}
+interface NoteViewState {
+	vault: string;
+	file: string;
+	subpath?: string;
+	ref?: string;
+}
 
-	async onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
+// Shows a note from a mapped vault read-only in a tab of this vault
+class CrossVaultNoteView extends ItemView {
+	private plugin: CrossVaultPlugin;
+	private note: NoteViewState | null = null;
+	private backHistory: NoteViewState[] = [];
+	private forwardHistory: NoteViewState[] = [];
+	private renderComponent: Component | null = null;
+	private renderGeneration = 0;
+	private backButton!: HTMLElement;
+	private forwardButton!: HTMLElement;
 
-		// Add title
-		contentEl.createEl('h2', { text: `Select a file from ${this.props.vaultMapping.name}` });
+	constructor(leaf: WorkspaceLeaf, plugin: CrossVaultPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
 
-		// Add search input
-		this.searchInput = contentEl.createEl('input', {
-			type: 'text',
-			placeholder: 'Search files...',
-			cls: 'cross-vault-search'
-		});
+	getViewType() {
+		return NOTE_VIEW_TYPE;
+	}
 
-		// Add file list container
-		this.fileList = contentEl.createEl('div', { cls: 'cross-vault-file-list' });
+	getDisplayText() {
+		if (!this.note) return 'Cross-Vault Note';
+		return `${this.note.file.split('/').pop()!.replace(/\.md$/, '')} (${this.note.vault})`;
+	}
 
-		// Load and display files
-		await this.loadFiles();
+	getIcon() {
+		return 'file-symlink';
+	}
 
-		// Setup search handler
-		this.searchInput.addEventListener('input', () => {
-			this.updateFileList();
-		});
+	getState(): Record<string, unknown> {
+		return this.note ? { ...this.note } : {};
 	}
 
-	private async loadFiles() {
-		try {
-			const files = await this.getAllMarkdownFiles(this.props.vaultMapping.path);
-			this.files = files.map(filePath => ({
-				vault: this.props.vaultMapping,
-				path: path.relative(this.props.vaultMapping.path, filePath).replace(/\\/g, '/').replace(/\.md$/, ''),
-				basename: path.basename(filePath, '.md')
-			}));
-			this.updateFileList();
-		} catch (error) {
-			new Notice(`Error loading files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	// Opening another note in this tab keeps the previous one in the back history
+	async setState(state: unknown, result: ViewStateResult) {
+		const note = state as NoteViewState;
+		if (note && note.vault && note.file) {
+			if (this.note && !this.isSameNote(this.note, note)) {
+				this.backHistory.push(this.note);
+				this.forwardHistory = [];
+			}
+			await this.show(note);
 		}
+		await super.setState(state, result);
 	}
 
-	private async getAllMarkdownFiles(dirPath: string): Promise<string[]> {
-		const files: string[] = [];
-		const items = fs.readdirSync(dirPath);
+	async onOpen() {
+		this.backButton = this.addAction('arrow-left', 'Back', () => this.goBack());
+		this.forwardButton = this.addAction('arrow-right', 'Forward', () => this.goForward());
+		this.updateNavigation();
+
+		// Re-render when the note changes in its vault
+		this.registerEvent(this.plugin.onIndexChanged((vaultName, paths) => {
+			if (!this.note || this.note.ref) return;
 
-		for (const item of items) {
-			const fullPath = path.join(dirPath, item);
-			const stats = fs.statSync(fullPath);
+			const vaultMapping = this.plugin.getVaultMapping(this.note.vault);
+			if (!vaultMapping || vaultMapping.name !== vaultName) return;
 
-			if (stats.isDirectory()) {
-				files.push(...await this.getAllMarkdownFiles(fullPath));
-			} else if (item.endsWith('.md')) {
-				files.push(fullPath);
+			const indexed = this.plugin.getVaultIndex(vaultMapping).resolve(this.note.file);
+			if (indexed && paths.indexOf(indexed.path) !== -1) {
+				this.render(false);
 			}
-		}
+		}));
 
-		return files;
+		if (!this.note) {
+			this.contentEl.createDiv({ cls: 'cross-vault-empty', text: 'No note selected' });
+		}
 	}
 
-	private updateFileList() {
-		const searchTerm = this.searchInput.value.toLowerCase();
-		this.fileList.empty();
-
-		const filteredFiles = searchTerm
-			? this.files.filter(file => 
-				file.basename.toLowerCase().includes(searchTerm) ||
-				file.path.toLowerCase().includes(searchTerm))
-			: this.files;
+	async onClose() {
+		this.contentEl.empty();
+	}
 
-		filteredFiles.forEach(file => {
-			const item = this.fileList.createEl('div', { 
-				cls: 'cross-vault-file-item',
-				text: file.path
-			});
+	private isSameNote(a: NoteViewState, b: NoteViewState): boolean {
+		return a.vault === b.vault && a.file === b.file && a.subpath === b.subpath && a.ref === b.ref;
+	}
 
-			item.addEventListener('click', () => {
-				this.props.onSelect(file);
-				this.close();
-			});
-		});
+	private async goBack() {
+		const previous = this.backHistory.pop();
+		if (!previous || !this.note) return;
+		this.forwardHistory.push(this.note);
+		await this.show(previous);
 	}
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
+	private async goForward() {
+		const next = this.forwardHistory.pop();
+		if (!next || !this.note) return;
+		this.backHistory.push(this.note);
+		await this.show(next);
 	}
-}
 
-class VaultSelectionModal extends Modal {
-	private vaultList!: HTMLElement;
-	private callback: (vault: VaultMapping) => void;
-	private plugin: CrossVaultPlugin;
+	// Wikilinks in the note open their target in this tab
+	private async navigate(note: NoteViewState) {
+		if (this.note) {
+			this.backHistory.push(this.note);
+		}
+		this.forwardHistory = [];
+		await this.show(note);
+	}
 
-	constructor(app: App, plugin: CrossVaultPlugin, callback: (vault: VaultMapping) => void) {
-		super(app);
-		this.plugin = plugin;
-		this.callback = callback;
+	private async show(note: NoteViewState) {
+		this.note = note;
+		this.updateNavigation();
+		// The tab title follows the note, but Obsidian only reads it again when asked to
+		const leaf = this.leaf as WorkspaceLeaf & { updateHeader?: () => void };
+		if (typeof leaf.updateHeader === 'function') {
+			leaf.updateHeader();
+		}
+		this.app.workspace.requestSaveLayout();
+		await this.render(true);
 	}
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
+	private updateNavigation() {
+		if (!this.backButton) return;
+		this.backButton.toggleClass('is-disabled', this.backHistory.length === 0);
+		this.forwardButton.toggleClass('is-disabled', this.forwardHistory.length === 0);
+	}
 
-		contentEl.createEl('h2', { text: 'Select a Vault' });
+	private async render(scrollToSubpath: boolean) {
+		const note = this.note;
+		if (!note) return;
 
-		this.vaultList = contentEl.createEl('div', { cls: 'cross-vault-vault-list' });
+		// The same note may be rendered again before the first render has finished
+		const generation = ++this.renderGeneration;
+		const container = this.contentEl;
+		const scrollTop = container.scrollTop;
+		container.empty();
+		container.addClass('cross-vault-note-view');
 
-		this.plugin.settings.vaultMappings.forEach(vault => {
-			const item = this.vaultList.createEl('div', {
-				cls: 'cross-vault-vault-item',
-				text: vault.name
-			});
+		if (this.renderComponent) {
+			this.removeChild(this.renderComponent);
+			this.renderComponent = null;
+		}
 
-			item.addEventListener('click', () => {
-				this.callback(vault);
-				this.close();
-			});
+		// Breadcrumbs: vault, folders, note
+		const breadcrumbsEl = container.createDiv({ cls: 'cross-vault-note-breadcrumbs' });
+		const parts = note.file.replace(/\.md$/, '').split('/');
+		[note.vault].concat(parts).forEach((part, index) => {
+			if (index > 0) {
+				breadcrumbsEl.createSpan({ cls: 'cross-vault-note-breadcrumb-separator', text: '›' });
+			}
+			breadcrumbsEl.createSpan({ cls: index === parts.length ? 'cross-vault-note-breadcrumb is-current' : 'cross-vault-note-breadcrumb', text: part });
 		});
+		if (note.ref) {
+			breadcrumbsEl.createSpan({ cls: 'cross-vault-note-breadcrumb-ref', text: `@ ${note.ref}` });
+		}
+
+		const vaultMapping = this.plugin.getVaultMapping(note.vault);
+		if (!vaultMapping) {
+			container.createDiv({ cls: 'cross-vault-error', text: `Vault "${note.vault}" not mapped` });
+			return;
+		}
+
+		const fileContent = await this.plugin.getFileFromVault(vaultMapping, note.file, note.ref);
+		if (generation !== this.renderGeneration) return;
+		if (fileContent === null) {
+			container.createDiv({ cls: 'cross-vault-error', text: `File not found: ${note.vault}/${note.file}` });
+			return;
+		}
+
+		const layoutEl = container.createDiv({ cls: 'cross-vault-note-layout' });
+		const bodyEl = layoutEl.createDiv({ cls: 'cross-vault-note-content markdown-rendered' });
+		const outlineEl = layoutEl.createDiv({ cls: 'cross-vault-note-outline' });
+
+		const renderComponent = new Component();
+		this.renderComponent = renderComponent;
+		this.addChild(renderComponent);
+		// Links followed inside a pinned revision stay on that revision
+		await this.plugin.renderExternalMarkdown(bodyEl, vaultMapping, note.file, fileContent, renderComponent, (vaultFile) => {
+			this.navigate({ vault: vaultFile.vault.name, file: vaultFile.path, subpath: vaultFile.subpath, ref: note.ref });
+		}, note.ref);
+		if (generation !== this.renderGeneration) return;
 
-		if (this.plugin.settings.vaultMappings.length === 0) {
-			this.vaultList.createEl('div', {
-				cls: 'cross-vault-empty',
-				text: 'No vaults configured. Please add vaults in the plugin settings.'
+		const headings = Array.from(bodyEl.querySelectorAll('h1, h2, h3, h4, h5, h6')) as HTMLElement[];
+		if (headings.length === 0) {
+			outlineEl.hide();
+		} else {
+			outlineEl.createDiv({ cls: 'cross-vault-note-outline-title', text: 'Outline' });
+			const minLevel = Math.min(...headings.map(heading => parseInt(heading.tagName.substring(1), 10)));
+			headings.forEach(heading => {
+				const itemEl = outlineEl.createDiv({ cls: 'cross-vault-note-outline-item', text: heading.textContent || '' });
+				itemEl.style.paddingLeft = `${(parseInt(heading.tagName.substring(1), 10) - minLevel) * 12}px`;
+				itemEl.addEventListener('click', () => heading.scrollIntoView({ block: 'start' }));
 			});
 		}
-	}
 
-	onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
+		if (!scrollToSubpath) {
+			container.scrollTop = scrollTop;
+		} else if (note.subpath && !note.subpath.startsWith('#^')) {
+			const target = normalizeHeading(note.subpath.substring(1));
+			const heading = headings.find(heading => normalizeHeading(heading.textContent || '') === target);
+			if (heading) {
+				heading.scrollIntoView({ block: 'start' });
+			}
+		}
 	}
-} 
\ No newline at end of file
+}